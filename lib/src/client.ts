@@ -21,22 +21,40 @@ import {
     OP_CONFIG_INITIATED,
     ResponseMode,
     SIGN_OUT_SUCCESS_PARAM,
-    STATE
+    STATE,
+    TokenTypeHint
 } from "./constants";
 import { AuthenticationCore } from "./core";
 import { DataLayer } from "./data";
-import { CryptoHelper } from "./helpers";
+import { CryptoHelper, SessionMonitor } from "./helpers";
 import {
     AuthClientConfig,
+    AuthorizationDetail,
+    AuthorizationURLParams,
+    BackchannelAuthenticationConfig,
+    BackchannelAuthenticationResponse,
     BasicUserInfo,
+    ClientCredentialsTokenResponse,
+    ClientMetadata,
+    ClientRegistrationResponse,
     CryptoUtils,
     CustomGrantConfig,
     DecodedIDTokenPayload,
+    DeviceAuthorizationResponse,
     FetchResponse,
     GetAuthURLConfig,
+    IntrospectionResponse,
     OIDCEndpoints,
+    SessionMonitorConfig,
+    SessionMonitorTransport,
+    SignOutCallbackResponse,
+    SignOutURLConfig,
     Store,
-    TokenResponse
+    TokenExchangeConfig,
+    TokenExchangeResponse,
+    TokenRequestConfig,
+    TokenResponse,
+    UserInfoResponse
 } from "./models";
 
 /**
@@ -171,6 +189,11 @@ export class AsgardeoAuthClient<T> {
     /**
      * This is an async method that returns a Promise that resolves with the authorization URL.
      *
+     * If pushed authorization requests are enabled, the parameters are pushed to the server and
+     * the returned URL only contains the `client_id` and the `request_uri` parameters. The `request_uri`
+     * expires within the lifetime returned by the server, which is usually a few seconds, so the user should be
+     * redirected to the URL right away. Use `getAuthorizationURLExpiry` to find out when the URL expires.
+     *
      * @param config - (Optional) A config object to force initialization and pass
      * custom path parameters such as the fidp parameter.
      * @param userID - (Optional) A unique ID of the user to be authenticated. This is useful in multi-user
@@ -205,6 +228,73 @@ export class AsgardeoAuthClient<T> {
         });
     }
 
+    /**
+     * This method returns the time at which the latest authorization URL returned by `getAuthorizationURL` expires.
+     * Only the URLs of pushed authorization requests expire.
+     *
+     * @param userID - (Optional) A unique ID of the user to be authenticated. This is useful in multi-user
+     * scenarios where each user should be uniquely identified.
+     *
+     * @returns - A Promise that resolves with the expiry time in milliseconds since the epoch, or `undefined` if the
+     * authorization URL doesn't expire.
+     *
+     * @example
+     * ```
+     * const url = await auth.getAuthorizationURL();
+     * const expiresAt = await auth.getAuthorizationURLExpiry();
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#getAuthorizationURLExpiry}
+     *
+     * @preserve
+     */
+    public async getAuthorizationURLExpiry(userID?: string): Promise<number | undefined> {
+        return this._authenticationCore.getAuthorizationURLExpiry(userID);
+    }
+
+    /**
+     * This method returns the authorization URL to re-authenticate the user when a resource server responds
+     * with an `insufficient_user_authentication` challenge as specified by RFC 9470. The `acr_values` and the
+     * `max_age` of the challenge are added to the authorization request and enforced on the returned ID token.
+     *
+     * @param wwwAuthenticate - The value of the `WWW-Authenticate` header of the resource server response.
+     * @param config - (Optional) A config object to force initialization and pass custom path parameters.
+     * @param userID - (Optional) A unique ID of the user to be authenticated. This is useful in multi-user
+     * scenarios where each user should be uniquely identified.
+     *
+     * @returns - A promise that resolves with the authorization URL.
+     *
+     * @example
+     * ```
+     * auth.getStepUpAuthorizationURL(response.headers.get("WWW-Authenticate")).then((url)=>{
+     *  // console.log(url);
+     * }).catch((error)=>{
+     *  // console.error(error);
+     * });
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#getStepUpAuthorizationURL}
+     *
+     * @preserve
+     */
+    public async getStepUpAuthorizationURL(
+        wwwAuthenticate: string,
+        config?: GetAuthURLConfig,
+        userID?: string
+    ): Promise<string> {
+        const authRequestConfig: GetAuthURLConfig = { ...config };
+
+        delete authRequestConfig?.forceInit;
+
+        if (await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED)) {
+            return this._authenticationCore.getStepUpAuthorizationURL(wwwAuthenticate, authRequestConfig, userID);
+        }
+
+        return this._authenticationCore.getOIDCProviderMetaData(config?.forceInit as boolean).then(() => {
+            return this._authenticationCore.getStepUpAuthorizationURL(wwwAuthenticate, authRequestConfig, userID);
+        });
+    }
+
     /**
      * This is an async method that sends a request to obtain the access token and returns a Promise
      * that resolves with the token and other relevant data.
@@ -213,6 +303,8 @@ export class AsgardeoAuthClient<T> {
      * @param sessionState - The session state.
      * @param userID - (Optional) A unique ID of the user to be authenticated. This is useful in multi-user
      * scenarios where each user should be uniquely identified.
+     * @param tokenRequestConfig - (Optional) A config object containing the authorization details and the resource
+     * indicators to be requested.
      *
      * @returns - A Promise that resolves with the token response.
      *
@@ -234,22 +326,378 @@ export class AsgardeoAuthClient<T> {
         authorizationCode: string,
         sessionState: string,
         state: string,
+        userID?: string,
+        tokenRequestConfig?: TokenRequestConfig
+    ): Promise<TokenResponse> {
+        if (await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED)) {
+            return this._authenticationCore.requestAccessToken(
+                authorizationCode, sessionState, state, userID, tokenRequestConfig);
+        }
+
+        return this._authenticationCore.getOIDCProviderMetaData(false).then(() => {
+            return this._authenticationCore.requestAccessToken(
+                authorizationCode, sessionState, state, userID, tokenRequestConfig);
+        });
+    }
+
+    /**
+     * This method handles the authorization response returned to the redirect URL. The state is verified against
+     * the pending authorization requests and the authorization code is exchanged for the tokens.
+     *
+     * @param callback - The full redirect URL, or the body of the request when the response mode is `form_post`.
+     * @param userID - (Optional) A unique ID of the user to be authenticated. This is useful in multi-user
+     * scenarios where each user should be uniquely identified.
+     * @param tokenRequestConfig - (Optional) A config object containing the authorization details and the resource
+     * indicators to be requested.
+     *
+     * @returns - A Promise that resolves with the token response. The Promise is rejected with an
+     * `AsgardeoAuthorizationException` if the authorization server returned an error.
+     *
+     * @example
+     * ```
+     * auth.handleAuthorizationCallback(window.location.href).then((token)=>{
+     *  // console.log(token);
+     * }).catch((error)=>{
+     *  // console.error(error.error, error.errorDescription);
+     * });
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#handleAuthorizationCallback}
+     *
+     * @preserve
+     */
+    public async handleAuthorizationCallback(
+        callback: string | Record<string, string>,
+        userID?: string,
+        tokenRequestConfig?: TokenRequestConfig
+    ): Promise<TokenResponse> {
+        if (await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED)) {
+            return this._authenticationCore.handleAuthorizationCallback(callback, userID, tokenRequestConfig);
+        }
+
+        return this._authenticationCore.getOIDCProviderMetaData(false).then(() => {
+            return this._authenticationCore.handleAuthorizationCallback(callback, userID, tokenRequestConfig);
+        });
+    }
+
+    /**
+     * This method sends a device authorization request to obtain the device code and the user code. The user should
+     * be asked to visit the returned verification URI and enter the user code on a separate device.
+     *
+     * @param scope - (Optional) The scopes to be requested. The scopes in the config are used if this is not passed.
+     *
+     * @returns - A Promise that resolves with the device authorization response.
+     *
+     * @example
+     * ```
+     * auth.requestDeviceAuthorization().then((deviceAuthorization)=>{
+     *  // console.log(deviceAuthorization.userCode, deviceAuthorization.verificationUri);
+     * }).catch((error)=>{
+     *  // console.error(error);
+     * });
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#requestDeviceAuthorization}
+     *
+     * @preserve
+     */
+    public async requestDeviceAuthorization(scope?: string[]): Promise<DeviceAuthorizationResponse> {
+        if (await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED)) {
+            return this._authenticationCore.requestDeviceAuthorization(scope);
+        }
+
+        return this._authenticationCore.getOIDCProviderMetaData(false).then(() => {
+            return this._authenticationCore.requestDeviceAuthorization(scope);
+        });
+    }
+
+    /**
+     * This method polls the token endpoint until the user completes the device authorization, and returns
+     * the token response once the user has authorized the device.
+     *
+     * @param deviceAuthorization - The response returned by the `requestDeviceAuthorization` method.
+     * @param signal - (Optional) An abort signal that can be used to cancel the polling.
+     * @param userID - (Optional) A unique ID of the user to be authenticated. This is useful in multi-user
+     * scenarios where each user should be uniquely identified.
+     *
+     * @returns - A Promise that resolves with the token response.
+     *
+     * @example
+     * ```
+     * const controller = new AbortController();
+     *
+     * auth.pollDeviceAccessToken(deviceAuthorization, controller.signal).then((token)=>{
+     *  // console.log(token);
+     * }).catch((error)=>{
+     *  // console.error(error);
+     * });
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#pollDeviceAccessToken}
+     *
+     * @preserve
+     */
+    public async pollDeviceAccessToken(
+        deviceAuthorization: DeviceAuthorizationResponse,
+        signal?: AbortSignal,
         userID?: string
     ): Promise<TokenResponse> {
         if (await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED)) {
-            return this._authenticationCore.requestAccessToken(authorizationCode, sessionState, state, userID);
+            return this._authenticationCore.pollDeviceAccessToken(deviceAuthorization, signal, userID);
+        }
+
+        return this._authenticationCore.getOIDCProviderMetaData(false).then(() => {
+            return this._authenticationCore.pollDeviceAccessToken(deviceAuthorization, signal, userID);
+        });
+    }
+
+    /**
+     * This method sends a Client-Initiated Backchannel Authentication (CIBA) request to authenticate the user on
+     * their authentication device, such as a mobile phone.
+     *
+     * @param config - A config object containing the hint that identifies the user, the binding message and the
+     * scopes to be requested.
+     *
+     * @returns - A Promise that resolves with the backchannel authentication response.
+     *
+     * @example
+     * ```
+     * auth.requestBackchannelAuthentication({
+     *     bindingMessage: "Call 1234",
+     *     loginHint: "alice@example.com"
+     * }).then((backchannelAuthentication)=>{
+     *  // console.log(backchannelAuthentication.authReqId);
+     * }).catch((error)=>{
+     *  // console.error(error);
+     * });
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#requestBackchannelAuthentication}
+     *
+     * @preserve
+     */
+    public async requestBackchannelAuthentication(
+        config: BackchannelAuthenticationConfig
+    ): Promise<BackchannelAuthenticationResponse> {
+        if (await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED)) {
+            return this._authenticationCore.requestBackchannelAuthentication(config);
+        }
+
+        return this._authenticationCore.getOIDCProviderMetaData(false).then(() => {
+            return this._authenticationCore.requestBackchannelAuthentication(config);
+        });
+    }
+
+    /**
+     * This method polls the token endpoint until the user completes the backchannel authentication, and stores
+     * and returns the tokens once the user is authenticated.
+     *
+     * @param backchannelAuthentication - The response returned by the `requestBackchannelAuthentication` method.
+     * @param signal - (Optional) An abort signal that can be used to cancel the polling.
+     * @param userID - (Optional) A unique ID of the user to be authenticated. This is useful in multi-user
+     * scenarios where each user should be uniquely identified.
+     *
+     * @returns - A Promise that resolves with the token response.
+     *
+     * @example
+     * ```
+     * auth.pollBackchannelAccessToken(backchannelAuthentication).then((token)=>{
+     *  // console.log(token);
+     * }).catch((error)=>{
+     *  // console.error(error);
+     * });
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#pollBackchannelAccessToken}
+     *
+     * @preserve
+     */
+    public async pollBackchannelAccessToken(
+        backchannelAuthentication: BackchannelAuthenticationResponse,
+        signal?: AbortSignal,
+        userID?: string
+    ): Promise<TokenResponse> {
+        if (await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED)) {
+            return this._authenticationCore.pollBackchannelAccessToken(backchannelAuthentication, signal, userID);
+        }
+
+        return this._authenticationCore.getOIDCProviderMetaData(false).then(() => {
+            return this._authenticationCore.pollBackchannelAccessToken(backchannelAuthentication, signal, userID);
+        });
+    }
+
+    /**
+     * This method obtains an access token for the application itself using the client credentials grant. The token
+     * is cached for the requested set of scopes and a new token is requested only when the cached token is about to
+     * expire. No ID token is issued for this grant and hence, no ID token validation is done.
+     *
+     * @param scope - (Optional) The scopes to be requested.
+     * @param forceRefresh - (Optional) Specifies if a new token should be requested even if a valid token is cached.
+     *
+     * @returns - A Promise that resolves with the client credentials token response.
+     *
+     * @example
+     * ```
+     * auth.requestClientCredentialsToken([ "internal_user_mgt_view" ]).then((token)=>{
+     *  // console.log(token.accessToken);
+     * }).catch((error)=>{
+     *  // console.error(error);
+     * });
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#requestClientCredentialsToken}
+     *
+     * @preserve
+     */
+    public async requestClientCredentialsToken(
+        scope?: string[],
+        forceRefresh?: boolean
+    ): Promise<ClientCredentialsTokenResponse> {
+        if (await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED)) {
+            return this._authenticationCore.requestClientCredentialsToken(scope, forceRefresh);
+        }
+
+        return this._authenticationCore.getOIDCProviderMetaData(false).then(() => {
+            return this._authenticationCore.requestClientCredentialsToken(scope, forceRefresh);
+        });
+    }
+
+    /**
+     * This method registers a new client with the authorization server using the OAuth 2.0 Dynamic Client
+     * Registration protocol.
+     *
+     * @param metadata - The metadata of the client to be registered.
+     * @param initialAccessToken - (Optional) The initial access token required by the registration endpoint.
+     * @param applyToConfig - (Optional) Specifies if the client ID and the client secret of the registered client
+     * should be applied to this instance.
+     *
+     * @returns - A Promise that resolves with the client registration response.
+     *
+     * @example
+     * ```
+     * auth.registerClient({
+     *     client_name: "Customer App",
+     *     grant_types: [ "authorization_code", "refresh_token" ],
+     *     redirect_uris: [ "https://customer.example.com/callback" ]
+     * }).then((registration)=>{
+     *  // console.log(registration.client_id);
+     * }).catch((error)=>{
+     *  // console.error(error);
+     * });
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#registerClient}
+     *
+     * @preserve
+     */
+    public async registerClient(
+        metadata: ClientMetadata,
+        initialAccessToken?: string,
+        applyToConfig?: boolean
+    ): Promise<ClientRegistrationResponse> {
+        if (await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED)) {
+            return this._authenticationCore.registerClient(metadata, initialAccessToken, applyToConfig);
+        }
+
+        return this._authenticationCore.getOIDCProviderMetaData(false).then(() => {
+            return this._authenticationCore.registerClient(metadata, initialAccessToken, applyToConfig);
+        });
+    }
+
+    /**
+     * This method reads the current registration of a client from the client configuration endpoint.
+     *
+     * @param registration - The client registration returned by the `registerClient` method. Only the `client_id`,
+     * `registration_access_token` and `registration_client_uri` attributes are used.
+     *
+     * @returns - A Promise that resolves with the client registration.
+     *
+     * @example
+     * ```
+     * const registration = await auth.getClientRegistration(storedRegistration);
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#getClientRegistration}
+     *
+     * @preserve
+     */
+    public async getClientRegistration(registration: ClientRegistrationResponse): Promise<ClientRegistrationResponse> {
+        if (await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED)) {
+            return this._authenticationCore.getClientRegistration(registration);
+        }
+
+        return this._authenticationCore.getOIDCProviderMetaData(false).then(() => {
+            return this._authenticationCore.getClientRegistration(registration);
+        });
+    }
+
+    /**
+     * This method replaces the metadata of a registered client.
+     *
+     * @param registration - The client registration returned by the `registerClient` method.
+     * @param metadata - The new metadata of the client.
+     *
+     * @returns - A Promise that resolves with the updated client registration.
+     *
+     * @example
+     * ```
+     * const registration = await auth.updateClientRegistration(storedRegistration, {
+     *     client_name: "Customer App",
+     *     redirect_uris: [ "https://customer.example.com/callback" ]
+     * });
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#updateClientRegistration}
+     *
+     * @preserve
+     */
+    public async updateClientRegistration(
+        registration: ClientRegistrationResponse,
+        metadata: ClientMetadata
+    ): Promise<ClientRegistrationResponse> {
+        if (await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED)) {
+            return this._authenticationCore.updateClientRegistration(registration, metadata);
+        }
+
+        return this._authenticationCore.getOIDCProviderMetaData(false).then(() => {
+            return this._authenticationCore.updateClientRegistration(registration, metadata);
+        });
+    }
+
+    /**
+     * This method deletes a registered client.
+     *
+     * @param registration - The client registration returned by the `registerClient` method.
+     *
+     * @returns - A Promise that resolves when the client is deleted.
+     *
+     * @example
+     * ```
+     * await auth.deleteClientRegistration(storedRegistration);
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#deleteClientRegistration}
+     *
+     * @preserve
+     */
+    public async deleteClientRegistration(registration: ClientRegistrationResponse): Promise<void> {
+        if (await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED)) {
+            return this._authenticationCore.deleteClientRegistration(registration);
         }
 
         return this._authenticationCore.getOIDCProviderMetaData(false).then(() => {
-            return this._authenticationCore.requestAccessToken(authorizationCode, sessionState, state, userID);
+            return this._authenticationCore.deleteClientRegistration(registration);
         });
     }
 
     /**
-     * This method returns the sign-out URL.
+     * This method returns the sign-out URL. A random state is sent with the sign-out request and stored so that
+     * the redirect back to the application can be verified using the `handleSignOutCallback` method.
      *
      * @param userID - (Optional) A unique ID of the user to be authenticated. This is useful in multi-user
      * scenarios where each user should be uniquely identified.
+     * @param config - (Optional) A config object containing the logout hint, the UI locales, the post-logout
+     * redirect URI and the application state to be returned after the sign-out.
      *
      * **This doesn't clear the authentication data.**
      *
@@ -257,15 +705,43 @@ export class AsgardeoAuthClient<T> {
      *
      * @example
      * ```
-     * const signOutUrl = await auth.getSignOutURL();
+     * const signOutUrl = await auth.getSignOutURL(undefined, { state: "/home", uiLocales: [ "en" ] });
      * ```
      *
      * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#getSignOutURL}
      *
      * @preserve
      */
-    public async getSignOutURL(userID?: string): Promise<string> {
-        return this._authenticationCore.getSignOutURL(userID);
+    public async getSignOutURL(userID?: string, config?: SignOutURLConfig): Promise<string> {
+        return this._authenticationCore.getSignOutURL(userID, config);
+    }
+
+    /**
+     * This method verifies the redirect back to the application after the sign-out. The state of the redirect must
+     * match the state stored when the sign-out URL was built.
+     *
+     * @param callback - The full URL to which the user was redirected after signing out.
+     * @param userID - (Optional) A unique ID of the user to be authenticated. This is useful in multi-user
+     * scenarios where each user should be uniquely identified.
+     *
+     * @returns - A Promise that resolves with the application state passed when building the sign-out URL. The
+     * promise is rejected if the state does not match or the server returned an error.
+     *
+     * @example
+     * ```
+     * auth.handleSignOutCallback(window.location.href).then((response)=>{
+     *  // console.log(response.state);
+     * }).catch((error)=>{
+     *  // console.error(error);
+     * });
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#handleSignOutCallback}
+     *
+     * @preserve
+     */
+    public async handleSignOutCallback(callback: string, userID?: string): Promise<SignOutCallbackResponse> {
+        return this._authenticationCore.handleSignOutCallback(callback, userID);
     }
 
     /**
@@ -286,6 +762,50 @@ export class AsgardeoAuthClient<T> {
         return this._authenticationCore.getOIDCServiceEndpoints();
     }
 
+    /**
+     * This method returns a session monitor that checks the session of the user at the OP using the
+     * `check_session_iframe` endpoint as specified by OpenID Connect Session Management.
+     *
+     * @param transport - The transport used to post messages to the OP iframe and receive its responses.
+     * @param config - (Optional) A config object containing the interval between session checks, the params of the
+     * `prompt=none` re-authentication request and the ID of the user whose session is monitored.
+     *
+     * @returns - A Promise that resolves with the session monitor.
+     *
+     * @example
+     * ```
+     * const sessionMonitor = await auth.getSessionMonitor(transport, { interval: 5 });
+     *
+     * sessionMonitor.subscribe((event) => {
+     *     if (event.status === SessionStatus.changed) {
+     *         // Load event.reauthenticationURL in a hidden iframe.
+     *     }
+     * });
+     *
+     * sessionMonitor.start();
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#getSessionMonitor}
+     *
+     * @preserve
+     */
+    public async getSessionMonitor(
+        transport: SessionMonitorTransport,
+        config?: SessionMonitorConfig
+    ): Promise<SessionMonitor<T>> {
+        if (!(await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED))) {
+            await this._authenticationCore.getOIDCProviderMetaData(false);
+        }
+
+        return new SessionMonitor<T>(
+            this._dataLayer,
+            transport,
+            (authorizationURLParams: AuthorizationURLParams, userID?: string) =>
+                this._authenticationCore.getAuthorizationURL(authorizationURLParams, userID),
+            config
+        );
+    }
+
     /**
      * This method decodes the payload of the ID token and returns it.
      *
@@ -333,6 +853,8 @@ export class AsgardeoAuthClient<T> {
      *
      * @param userID - (Optional) A unique ID of the user to be authenticated. This is useful in multi-user
      * scenarios where each user should be uniquely identified.
+     * @param fetchUserInfo - (Optional) Specifies if the claims returned by the UserInfo endpoint should be merged
+     * into the basic user information.
      *
      * @returns - A Promise that resolves with an object containing the basic user information.
      *
@@ -345,8 +867,43 @@ export class AsgardeoAuthClient<T> {
      *
      * @preserve
      */
-    public async getBasicUserInfo(userID?: string): Promise<BasicUserInfo> {
-        return this._authenticationCore.getBasicUserInfo(userID);
+    public async getBasicUserInfo(userID?: string, fetchUserInfo?: boolean): Promise<BasicUserInfo> {
+        if (!fetchUserInfo || await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED)) {
+            return this._authenticationCore.getBasicUserInfo(userID, fetchUserInfo);
+        }
+
+        return this._authenticationCore.getOIDCProviderMetaData(false).then(() => {
+            return this._authenticationCore.getBasicUserInfo(userID, fetchUserInfo);
+        });
+    }
+
+    /**
+     * This method sends the access token to the UserInfo endpoint and returns the claims of the user. The `sub`
+     * claim of the response is verified against the `sub` claim of the ID token. Signed UserInfo responses are
+     * verified using the keys of the JWKS endpoint.
+     *
+     * @param userID - (Optional) A unique ID of the user to be authenticated. This is useful in multi-user
+     * scenarios where each user should be uniquely identified.
+     *
+     * @returns - A Promise that resolves with the claims returned by the UserInfo endpoint.
+     *
+     * @example
+     * ```
+     * const userInfo = await auth.getUserInfo();
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#getUserInfo}
+     *
+     * @preserve
+     */
+    public async getUserInfo(userID?: string): Promise<UserInfoResponse> {
+        if (await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED)) {
+            return this._authenticationCore.getUserInfo(userID);
+        }
+
+        return this._authenticationCore.getOIDCProviderMetaData(false).then(() => {
+            return this._authenticationCore.getUserInfo(userID);
+        });
     }
 
     /**
@@ -394,12 +951,112 @@ export class AsgardeoAuthClient<T> {
         return this._authenticationCore.revokeAccessToken(userID);
     }
 
+    /**
+     * This method revokes the refresh token, the access token, or both. The client is authenticated using the
+     * configured client authentication method and the revoked tokens are removed from the session.
+     *
+     * @param tokenTypes - (Optional) The types of the tokens to be revoked. Both the refresh token and the access
+     * token are revoked by default.
+     * @param userID - (Optional) A unique ID of the user to be authenticated. This is useful in multi-user
+     * scenarios where each user should be uniquely identified.
+     *
+     * @returns - A Promise that resolves when the tokens are revoked.
+     *
+     * @example
+     * ```
+     * auth.revokeTokens([ TokenTypeHint.refreshToken ]).then(()=>{
+     *  // console.log("Revoked");
+     * }).catch((error)=>{
+     *  // console.error(error);
+     * });
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#revokeTokens}
+     *
+     * @preserve
+     */
+    public async revokeTokens(tokenTypes?: TokenTypeHint[], userID?: string): Promise<void> {
+        if (await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED)) {
+            return this._authenticationCore.revokeTokens(tokenTypes, userID);
+        }
+
+        return this._authenticationCore.getOIDCProviderMetaData(false).then(() => {
+            return this._authenticationCore.revokeTokens(tokenTypes, userID);
+        });
+    }
+
+    /**
+     * This method signs the user out by building the sign-out URL, revoking the refresh token and the access token,
+     * and clearing the authentication data, in that order.
+     *
+     * @param userID - (Optional) A unique ID of the user to be authenticated. This is useful in multi-user
+     * scenarios where each user should be uniquely identified.
+     * @param config - (Optional) A config object used to build the sign-out URL.
+     *
+     * **This method also clears the authentication data.**
+     *
+     * @returns - A Promise that resolves with the sign-out URL to which the user should be redirected.
+     *
+     * @example
+     * ```
+     * const signOutURL = await auth.signOut();
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#signOut}
+     *
+     * @preserve
+     */
+    public async signOut(userID?: string, config?: SignOutURLConfig): Promise<string> {
+        if (await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED)) {
+            return this._authenticationCore.signOut(userID, config);
+        }
+
+        return this._authenticationCore.getOIDCProviderMetaData(false).then(() => {
+            return this._authenticationCore.signOut(userID, config);
+        });
+    }
+
+    /**
+     * This method processes a logout token sent by the OP to the back-channel logout endpoint of the application.
+     * The signature and the claims of the token are validated, and the sessions identified by the `sid` claim, or
+     * by the `sub` claim if there is no `sid` claim, are cleared.
+     *
+     * @param logoutToken - The value of the `logout_token` parameter of the back-channel logout request.
+     *
+     * @returns - A Promise that resolves with the IDs of the users whose sessions were cleared. The session of the
+     * default user is represented by an empty string.
+     *
+     * @example
+     * ```
+     * auth.handleBackchannelLogout(logoutToken).then((userIDs)=>{
+     *  // console.log(userIDs);
+     * }).catch((error)=>{
+     *  // console.error(error);
+     * });
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#handleBackchannelLogout}
+     *
+     * @preserve
+     */
+    public async handleBackchannelLogout(logoutToken: string): Promise<string[]> {
+        if (await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED)) {
+            return this._authenticationCore.handleBackchannelLogout(logoutToken);
+        }
+
+        return this._authenticationCore.getOIDCProviderMetaData(false).then(() => {
+            return this._authenticationCore.handleBackchannelLogout(logoutToken);
+        });
+    }
+
     /**
      * This method refreshes the access token and returns a Promise that resolves with the new access
      * token and other relevant data.
      *
      * @param userID - (Optional) A unique ID of the user to be authenticated. This is useful in multi-user
      * scenarios where each user should be uniquely identified.
+     * @param tokenRequestConfig - (Optional) A config object containing the authorization details and the resource
+     * indicators to be requested.
      *
      * @returns - A Promise that resolves with the token response.
      *
@@ -416,8 +1073,8 @@ export class AsgardeoAuthClient<T> {
      *
      * @preserve
      */
-    public refreshAccessToken(userID?: string): Promise<TokenResponse> {
-        return this._authenticationCore.refreshAccessToken(userID);
+    public refreshAccessToken(userID?: string, tokenRequestConfig?: TokenRequestConfig): Promise<TokenResponse> {
+        return this._authenticationCore.refreshAccessToken(userID, tokenRequestConfig);
     }
 
     /**
@@ -425,20 +1082,51 @@ export class AsgardeoAuthClient<T> {
      *
      * @param userID - (Optional) A unique ID of the user to be authenticated. This is useful in multi-user
      * scenarios where each user should be uniquely identified.
+     * @param resource - (Optional) The resource indicator of the API the access token is intended for. If no
+     * valid access token is stored for the resource, a new one is obtained using the refresh token.
      *
      * @returns - A Promise that resolves with the access token.
      *
      * @example
      * ```
      * const accessToken = await auth.getAccessToken();
+     * const paymentsAccessToken = await auth.getAccessToken(undefined, "https://api.example.com/payments");
      * ```
      *
      * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#getAccessToken}
      *
      * @preserve
      */
-    public async getAccessToken(userID?: string): Promise<string> {
-        return this._authenticationCore.getAccessToken(userID);
+    public async getAccessToken(userID?: string, resource?: string): Promise<string> {
+        if (!resource || await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED)) {
+            return this._authenticationCore.getAccessToken(userID, resource);
+        }
+
+        return this._authenticationCore.getOIDCProviderMetaData(false).then(() => {
+            return this._authenticationCore.getAccessToken(userID, resource);
+        });
+    }
+
+    /**
+     * This method returns the authorization details granted with the access token as specified by RFC 9396.
+     *
+     * @param userID - (Optional) A unique ID of the user to be authenticated. This is useful in multi-user
+     * scenarios where each user should be uniquely identified.
+     *
+     * @returns - A Promise that resolves with the granted authorization details. The array is empty if no
+     * authorization details were granted.
+     *
+     * @example
+     * ```
+     * const authorizationDetails = await auth.getAuthorizationDetails();
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#getAuthorizationDetails}
+     *
+     * @preserve
+     */
+    public async getAuthorizationDetails(userID?: string): Promise<AuthorizationDetail[]> {
+        return this._authenticationCore.getAuthorizationDetails(userID);
     }
 
     /**
@@ -483,11 +1171,53 @@ export class AsgardeoAuthClient<T> {
         return this._authenticationCore.requestCustomGrant(config, userID);
     }
 
+    /**
+     * This method exchanges a token for another token using the OAuth 2.0 token exchange grant.
+     *
+     * @param config - A config object containing the subject token, the actor token and the details of the
+     * requested token.
+     * @param userID - (Optional) A unique ID of the user to be authenticated. This is useful in multi-user
+     * scenarios where each user should be uniquely identified.
+     *
+     * @returns - A Promise that resolves with the token exchange response.
+     *
+     * @example
+     * ```
+     * const config = {
+     *   audience: "orders-service",
+     *   storeSession: false,
+     *   subjectToken: await auth.getAccessToken(),
+     *   subjectTokenType: TokenTypeIdentifier.accessToken
+     * }
+     *
+     * auth.exchangeToken(config).then((response)=>{
+     *  // console.log(response.accessToken, response.issuedTokenType);
+     * }).catch((error)=>{
+     *  // console.error(error);
+     * });
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#exchangeToken}
+     *
+     * @preserve
+     */
+    public async exchangeToken(config: TokenExchangeConfig, userID?: string): Promise<TokenExchangeResponse> {
+        if (await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED)) {
+            return this._authenticationCore.exchangeToken(config, userID);
+        }
+
+        return this._authenticationCore.getOIDCProviderMetaData(false).then(() => {
+            return this._authenticationCore.exchangeToken(config, userID);
+        });
+    }
+
     /**
      * This method returns if the user is authenticated or not.
      *
      * @param userID - (Optional) A unique ID of the user to be authenticated. This is useful in multi-user
      * scenarios where each user should be uniquely identified.
+     * @param validateWithServer - (Optional) Specifies if the access token should be introspected to check if it
+     * is still active.
      *
      * @returns - A Promise that resolves with `true` if the user is authenticated, `false` otherwise.
      *
@@ -500,8 +1230,74 @@ export class AsgardeoAuthClient<T> {
      *
      * @preserve
      */
-    public async isAuthenticated(userID?: string): Promise<boolean> {
-        return this._authenticationCore.isAuthenticated(userID);
+    public async isAuthenticated(userID?: string, validateWithServer?: boolean): Promise<boolean> {
+        if (!validateWithServer || await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED)) {
+            return this._authenticationCore.isAuthenticated(userID, validateWithServer);
+        }
+
+        return this._authenticationCore.getOIDCProviderMetaData(false).then(() => {
+            return this._authenticationCore.isAuthenticated(userID, validateWithServer);
+        });
+    }
+
+    /**
+     * This method sends the token to the introspection endpoint to obtain the state and the meta information of
+     * the token. The client is authenticated using the configured client authentication method.
+     *
+     * @param token - (Optional) The token to be introspected. The access token of the session is used if this is
+     * not passed.
+     * @param tokenTypeHint - (Optional) A hint about the type of the token such as `access_token`.
+     * @param userID - (Optional) A unique ID of the user to be authenticated. This is useful in multi-user
+     * scenarios where each user should be uniquely identified.
+     *
+     * @returns - A Promise that resolves with the introspection response.
+     *
+     * @example
+     * ```
+     * const introspectionResponse = await auth.introspectToken(accessToken);
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#introspectToken}
+     *
+     * @preserve
+     */
+    public async introspectToken(
+        token?: string,
+        tokenTypeHint?: string,
+        userID?: string
+    ): Promise<IntrospectionResponse> {
+        if (await this._dataLayer.getTemporaryDataParameter(OP_CONFIG_INITIATED)) {
+            return this._authenticationCore.introspectToken(token, tokenTypeHint, userID);
+        }
+
+        return this._authenticationCore.getOIDCProviderMetaData(false).then(() => {
+            return this._authenticationCore.introspectToken(token, tokenTypeHint, userID);
+        });
+    }
+
+    /**
+     * This method returns a DPoP proof bound to the access token of the session that can be sent in the `DPoP`
+     * header of a request to a resource server.
+     *
+     * @param httpMethod - The HTTP method of the request.
+     * @param url - The URL of the request.
+     * @param nonce - (Optional) The nonce provided by the resource server in the `DPoP-Nonce` header.
+     * @param userID - (Optional) A unique ID of the user to be authenticated. This is useful in multi-user
+     * scenarios where each user should be uniquely identified.
+     *
+     * @returns - A Promise that resolves with the DPoP proof.
+     *
+     * @example
+     * ```
+     * const proof = await auth.getDPoPProof("GET", "https://api.example.com/orders");
+     * ```
+     *
+     * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#getDPoPProof}
+     *
+     * @preserve
+     */
+    public async getDPoPProof(httpMethod: string, url: string, nonce?: string, userID?: string): Promise<string> {
+        return this._authenticationCore.getDPoPProof(httpMethod, url, nonce, userID);
     }
 
     /**
@@ -557,6 +1353,13 @@ export class AsgardeoAuthClient<T> {
      *
      * @returns - `true` if successful, `false` otherwise.
      *
+     * **This check is unsafe. Any URL with a state starting with `sign_out_success` passes it, including a URL
+     * crafted by an attacker, since the state is not compared with the state stored when the sign-out URL was
+     * built. It must not be used to decide whether the user has signed out.**
+     *
+     * @deprecated Use `handleSignOutCallback` instead, which verifies the state against the state stored
+     * when the sign-out URL was built.
+     *
      * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#isSignOutSuccessful}
      *
      * @preserve
@@ -566,7 +1369,7 @@ export class AsgardeoAuthClient<T> {
         const stateParam: string | null = url.searchParams.get(STATE);
         const error: boolean = Boolean(url.searchParams.get("error"));
 
-        return stateParam ? stateParam === SIGN_OUT_SUCCESS_PARAM && !error : false;
+        return stateParam ? stateParam.startsWith(SIGN_OUT_SUCCESS_PARAM) && !error : false;
     }
 
     /**
@@ -579,6 +1382,13 @@ export class AsgardeoAuthClient<T> {
      *
      * @returns - `true` if successful, `false` otherwise.
      *
+     * **This check is unsafe. Any URL with a state starting with `sign_out_success` passes it, including a URL
+     * crafted by an attacker, since the state is not compared with the state stored when the sign-out URL was
+     * built. It must not be used to decide whether the user has signed out.**
+     *
+     * @deprecated Use `handleSignOutCallback` instead, which verifies the state against the state stored
+     * when the sign-out URL was built.
+     *
      * {@link https://github.com/asgardeo/asgardeo-auth-js-sdk/tree/master#didSignOutFail}
      *
      * @preserve
@@ -588,7 +1398,7 @@ export class AsgardeoAuthClient<T> {
         const stateParam: string | null = url.searchParams.get(STATE);
         const error: boolean = Boolean(url.searchParams.get("error"));
 
-        return stateParam ? stateParam === SIGN_OUT_SUCCESS_PARAM && error : false;
+        return stateParam ? stateParam.startsWith(SIGN_OUT_SUCCESS_PARAM) && error : false;
     }
 
     /**
@@ -18,5 +18,43 @@
 
 export enum ResponseMode {
     formPost = "form_post",
-    query = "query"
+    formPostJwt = "form_post.jwt",
+    fragment = "fragment",
+    fragmentJwt = "fragment.jwt",
+    jwt = "jwt",
+    query = "query",
+    queryJwt = "query.jwt"
+}
+
+export enum ResponseType {
+    code = "code",
+    codeIdToken = "code id_token"
+}
+
+export enum SessionStatus {
+    changed = "changed",
+    error = "error",
+    unchanged = "unchanged"
+}
+
+export enum TokenEndpointAuthMethod {
+    clientSecretBasic = "client_secret_basic",
+    clientSecretJwt = "client_secret_jwt",
+    clientSecretPost = "client_secret_post",
+    none = "none",
+    privateKeyJwt = "private_key_jwt"
+}
+
+export enum TokenTypeHint {
+    accessToken = "access_token",
+    refreshToken = "refresh_token"
+}
+
+export enum TokenTypeIdentifier {
+    accessToken = "urn:ietf:params:oauth:token-type:access_token",
+    idToken = "urn:ietf:params:oauth:token-type:id_token",
+    jwt = "urn:ietf:params:oauth:token-type:jwt",
+    refreshToken = "urn:ietf:params:oauth:token-type:refresh_token",
+    saml1 = "urn:ietf:params:oauth:token-type:saml1",
+    saml2 = "urn:ietf:params:oauth:token-type:saml2"
 }
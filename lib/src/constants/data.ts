@@ -26,7 +26,48 @@ export enum Stores {
 export const REFRESH_TOKEN_TIMER: string = "refresh_token_timer";
 export const PKCE_CODE_VERIFIER: string = "pkce_code_verifier";
 export const PKCE_SEPARATOR: string = "#";
+export const OIDC_NONCE: string = "oidc_nonce";
+export const CLIENT_CREDENTIALS_TOKENS: string = "client_credentials_tokens";
+export const SESSION_INDEX: string = "session_index";
+export const LOGOUT_TOKEN_IDS: string = "logout_token_ids";
+export const SIGN_OUT_STATE: string = "sign_out_state";
+export const AUTHORIZATION_URL_EXPIRY: string = "authorization_url_expiry";
 
 export const SUPPORTED_SIGNATURE_ALGORITHMS: string[] = [
     "RS256", "RS512", "RS384", "PS256"
 ];
+
+export const DEFAULT_REQUEST_OBJECT_SIGNING_ALGORITHM: string = "RS256";
+export const DEFAULT_DPOP_SIGNING_ALGORITHM: string = "ES256";
+export const DEFAULT_CLIENT_SECRET_JWT_SIGNING_ALGORITHM: string = "HS256";
+export const DEFAULT_PRIVATE_KEY_JWT_SIGNING_ALGORITHM: string = "RS256";
+export const CLIENT_ASSERTION_TYPE_JWT_BEARER: string = "urn:ietf:params:oauth:client-assertion-type:jwt-bearer";
+/**
+ * The lifetime of a client assertion in seconds.
+ */
+export const CLIENT_ASSERTION_LIFETIME: number = 300;
+/**
+ * The default interval in seconds between token requests when polling the token endpoint.
+ */
+export const DEFAULT_POLLING_INTERVAL: number = 5;
+/**
+ * The number of seconds by which the polling interval is increased when the server asks to slow down.
+ */
+export const SLOW_DOWN_POLLING_INTERVAL_INCREMENT: number = 5;
+/**
+ * The number of seconds before the expiry of a cached token at which a new token is requested.
+ */
+export const TOKEN_EXPIRY_LEEWAY: number = 60;
+/**
+ * The default interval in seconds between session status checks.
+ */
+export const DEFAULT_SESSION_CHECK_INTERVAL: number = 3;
+/**
+ * The maximum age in seconds of a logout token that is accepted.
+ */
+export const LOGOUT_TOKEN_MAX_AGE: number = 300;
+export const DPOP_TOKEN_TYPE: string = "DPoP";
+/**
+ * The lifetime of a request object in seconds.
+ */
+export const REQUEST_OBJECT_LIFETIME: number = 300;
@@ -21,3 +21,6 @@ export enum FetchCredentialTypes {
     SameOrigin = "same-origin",
     Omit = "omit"
 }
+
+export const DPOP_HEADER: string = "DPoP";
+export const DPOP_NONCE_HEADER: string = "DPoP-Nonce";
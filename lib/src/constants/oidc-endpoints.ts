@@ -20,10 +20,13 @@ import { OIDCEndpoints } from "../models";
 
 export const SERVICE_RESOURCES: OIDCEndpoints  = {
     authorizationEndpoint: "/oauth2/authorize",
+    backchannelAuthenticationEndpoint: "/oauth2/ciba",
     checkSessionIframe: "/oidc/checksession",
+    deviceAuthorizationEndpoint: "/oauth2/device_authorize",
     endSessionEndpoint: "/oidc/logout",
     issuer: "/oauth2/token",
     jwksUri: "/oauth2/jwks",
+    pushedAuthorizationRequestEndpoint: "/oauth2/par",
     revocationEndpoint: "/oauth2/revoke",
     tokenEndpoint: "/oauth2/token",
     userinfoEndpoint: "/oauth2/userinfo"
@@ -44,3 +47,6 @@ export const REGISTRATION_ENDPOINT: string = "registration_endpoint";
 export const USERINFO_ENDPOINT: string = "userinfo_endpoint";
 export const INTROSPECTION_ENDPOINT: string = "introspection_endpoint";
 export const ISSUER: string = "issuer";
+export const PUSHED_AUTHORIZATION_REQUEST_ENDPOINT: string = "pushed_authorization_request_endpoint";
+export const DEVICE_AUTHORIZATION_ENDPOINT: string = "device_authorization_endpoint";
+export const BACKCHANNEL_AUTHENTICATION_ENDPOINT: string = "backchannel_authentication_endpoint";
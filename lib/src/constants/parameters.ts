@@ -21,3 +21,14 @@ export const SESSION_STATE: string = "session_state";
 export const SIGN_OUT_URL: string = "sign_out_url";
 export const SIGN_OUT_SUCCESS_PARAM: string = "sign_out_success";
 export const STATE: string = "state";
+export const NONCE: string = "nonce";
+export const RESOURCE: string = "resource";
+export const ACR_VALUES: string = "acr_values";
+export const MAX_AGE: string = "max_age";
+export const CLAIMS: string = "claims";
+export const INSUFFICIENT_USER_AUTHENTICATION: string = "insufficient_user_authentication";
+export const CIBA_GRANT_TYPE: string = "urn:openid:params:grant-type:ciba";
+export const CLIENT_CREDENTIALS_GRANT_TYPE: string = "client_credentials";
+export const DEVICE_CODE_GRANT_TYPE: string = "urn:ietf:params:oauth:grant-type:device_code";
+export const TOKEN_EXCHANGE_GRANT_TYPE: string = "urn:ietf:params:oauth:grant-type:token-exchange";
+export const BACKCHANNEL_LOGOUT_EVENT: string = "http://schemas.openid.net/event/backchannel-logout";
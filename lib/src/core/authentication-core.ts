@@ -16,32 +16,79 @@
  * under the License.
  */
 import {
+    ACR_VALUES,
+    AUTHORIZATION_CODE,
     AUTHORIZATION_ENDPOINT,
+    AUTHORIZATION_URL_EXPIRY,
+    CIBA_GRANT_TYPE,
+    CLAIMS,
+    CLIENT_CREDENTIALS_GRANT_TYPE,
+    CLIENT_CREDENTIALS_TOKENS,
+    DEFAULT_POLLING_INTERVAL,
+    DEVICE_CODE_GRANT_TYPE,
     FetchCredentialTypes,
+    INSUFFICIENT_USER_AUTHENTICATION,
+    MAX_AGE,
+    NONCE,
     OIDC_SCOPE,
     OP_CONFIG_INITIATED,
+    RESOURCE,
+    ResponseMode,
+    ResponseType,
     SESSION_STATE,
+    SIGN_OUT_STATE,
     SIGN_OUT_SUCCESS_PARAM,
-    STATE
+    STATE,
+    TOKEN_EXCHANGE_GRANT_TYPE,
+    TOKEN_EXPIRY_LEEWAY,
+    TokenTypeHint
 } from "../constants";
 import { DataLayer } from "../data";
-import { AsgardeoAuthException } from "../exception";
+import { AsgardeoAuthException, AsgardeoAuthorizationException } from "../exception";
 import { AuthenticationHelper, CryptoHelper } from "../helpers";
 import {
     AuthClientConfig,
     AuthenticatedUserInfo,
+    AuthenticationRequirements,
+    AuthorizationDetail,
     AuthorizationURLParams,
+    BackchannelAuthenticationConfig,
+    BackchannelAuthenticationResponse,
     BasicUserInfo,
+    ClaimsRequest,
+    ClientAuthentication,
+    ClientCredentialsTokenResponse,
+    ClientMetadata,
+    ClientRegistrationResponse,
     CryptoUtils,
     CustomGrantConfig,
     DecodedIDTokenPayload,
+    DecodedLogoutTokenPayload,
+    DeviceAuthorizationResponse,
     FetchRequestConfig,
     FetchResponse,
+    IntrospectionResponse,
     OIDCEndpoints,
     OIDCProviderMetaData,
+    PushedAuthorizationResponse,
+    RawBackchannelAuthenticationResponse,
+    RawDeviceAuthorizationResponse,
+    RawIntrospectionResponse,
+    RawTokenExchangeResponse,
+    RawTokenResponse,
+    ResourceAccessToken,
     SessionData,
+    SessionIndex,
+    SignOutCallbackResponse,
+    SignOutState,
+    SignOutURLConfig,
     StrictAuthClientConfig,
-    TokenResponse
+    TemporaryData,
+    TokenExchangeConfig,
+    TokenExchangeResponse,
+    TokenRequestConfig,
+    TokenResponse,
+    UserInfoResponse
 } from "../models";
 import { AuthenticationUtils } from "../utils";
 
@@ -80,9 +127,9 @@ export class AuthenticationCore<T> {
 
         const authorizeRequest: URL = new URL(authorizeEndpoint);
 
-        const authorizeRequestParams: Map<string, string> = new Map<string, string>();
+        let authorizeRequestParams: Map<string, string | string[]> = new Map<string, string | string[]>();
 
-        authorizeRequestParams.set("response_type", "code");
+        authorizeRequestParams.set("response_type", configData.responseType ?? ResponseType.code);
         authorizeRequestParams.set("client_id", configData.clientID);
 
         let scope: string = OIDC_SCOPE;
@@ -98,7 +145,11 @@ export class AuthenticationCore<T> {
         authorizeRequestParams.set("redirect_uri", configData.signInRedirectURL);
 
         if (configData.responseMode) {
-            authorizeRequestParams.set("response_mode", configData.responseMode);
+            // The ID token of a hybrid flow must not be returned in the query string.
+            authorizeRequestParams.set("response_mode",
+                configData.responseType === ResponseType.codeIdToken && configData.responseMode === ResponseMode.query
+                    ? ResponseMode.fragment
+                    : configData.responseMode);
         }
 
         const pkceKey: string = await this._authenticationHelper.generatePKCEKey(userID);
@@ -120,35 +171,239 @@ export class AuthenticationCore<T> {
 
         if (customParams) {
             for (const [ key, value ] of Object.entries(customParams)) {
-                if (key != "" && value != "" && key !== STATE) {
+                // A `max_age` of zero is a valid value that forces the user to re-authenticate.
+                if (key != "" && (value != "" || typeof value === "number") && key !== STATE) {
                     const snakeCasedKey: string = key.replace(/[A-Z]/g,
                         (letter: string) => `_${ letter.toLowerCase() }`);
 
-                    authorizeRequestParams.set(snakeCasedKey, value.toString());
+                    // Resource indicators are sent as repeated parameters whereas other structured values, such as
+                    // the authorization details, are sent as JSON.
+                    if (key === RESOURCE) {
+                        authorizeRequestParams.set(RESOURCE, ([] as string[]).concat(value as string | string[]));
+                    } else if (snakeCasedKey === ACR_VALUES) {
+                        authorizeRequestParams.set(ACR_VALUES,
+                            ([] as string[]).concat(value as string | string[]).join(" "));
+                    } else {
+                        authorizeRequestParams.set(snakeCasedKey,
+                            typeof value === "object" ? JSON.stringify(value) : value.toString());
+                    }
                 }
             }
         }
 
-        authorizeRequestParams.set(
-            STATE,
-            AuthenticationUtils.generateStateParamForRequestCorrelation(
-                pkceKey,
-                customParams ? customParams[ STATE ]?.toString() : ""
-            )
+        const state: string = AuthenticationUtils.generateStateParamForRequestCorrelation(
+            pkceKey,
+            customParams ? customParams[ STATE ]?.toString() : ""
         );
+        const nonce: string = this._cryptoHelper.getNonce();
+
+        await this._dataLayer.setTemporaryDataParameter(
+            AuthenticationUtils.extractNonceKeyFromStateParam(state),
+            nonce,
+            userID
+        );
+        authorizeRequestParams.set(NONCE, nonce);
+        authorizeRequestParams.set(STATE, state);
+
+        // The values are read from the request parameters so that they are enforced regardless of whether they were
+        // passed using the camel-cased or the snake-cased keys.
+        const acrValues: string[] = ((authorizeRequestParams.get(ACR_VALUES) ?? "") as string)
+            .split(" ")
+            .filter((acrValue: string) => acrValue.length > 0);
+        const maxAge: number = parseInt((authorizeRequestParams.get(MAX_AGE) ?? "") as string);
+
+        // The requested authentication requirements are verified against the ID token after the token exchange.
+        if (acrValues.length > 0) {
+            await this._dataLayer.setTemporaryDataParameter(
+                AuthenticationUtils.extractRequestParamKeyFromStateParam(ACR_VALUES, state),
+                acrValues,
+                userID
+            );
+        }
+
+        if (!isNaN(maxAge)) {
+            await this._dataLayer.setTemporaryDataParameter(
+                AuthenticationUtils.extractRequestParamKeyFromStateParam(MAX_AGE, state),
+                maxAge,
+                userID
+            );
+        }
+
+        if (customParams?.claims) {
+            await this._dataLayer.setTemporaryDataParameter(
+                AuthenticationUtils.extractRequestParamKeyFromStateParam(CLAIMS, state),
+                JSON.stringify(customParams.claims),
+                userID
+            );
+        }
+
+        const oidcProviderMetaData: OIDCProviderMetaData = await this._oidcProviderMetaData();
+        const isPAREnabled: boolean = Boolean(
+            configData.enablePAR || oidcProviderMetaData.require_pushed_authorization_requests);
+
+        if (configData.enableRequestObject) {
+            const requestObject: string = await this._authenticationHelper.createRequestObject(authorizeRequestParams);
+
+            if (!isPAREnabled && oidcProviderMetaData.request_parameter_supported === false) {
+                throw new AsgardeoAuthException(
+                    "JS-AUTH_CORE-GAU-IV02",
+                    "Request objects not supported.",
+                    "The server does not support passing request objects by value using the `request` parameter. " +
+                    "Enable pushed authorization requests to pass the request object by reference instead."
+                );
+            }
+
+            const requestObjectParams: Map<string, string | string[]> = new Map<string, string | string[]>();
+
+            requestObjectParams.set("client_id", configData.clientID);
+
+            // OIDC requires the `response_type` and `scope` parameters to be present outside the request object.
+            if (!isPAREnabled) {
+                requestObjectParams.set("response_type", authorizeRequestParams.get("response_type") ?? "");
+                requestObjectParams.set("scope", authorizeRequestParams.get("scope") ?? "");
+            }
+
+            requestObjectParams.set("request", requestObject);
+            authorizeRequestParams = requestObjectParams;
+        }
+
+        await this._dataLayer.removeTemporaryDataParameter(AUTHORIZATION_URL_EXPIRY, userID);
+
+        if (isPAREnabled) {
+            const pushedAuthorizationResponse: PushedAuthorizationResponse =
+                await this.pushAuthorizationRequest(authorizeRequestParams);
+
+            // The `request_uri` is short-lived, so its expiry is kept for callers that don't redirect right away.
+            await this._dataLayer.setTemporaryDataParameter(
+                AUTHORIZATION_URL_EXPIRY,
+                Date.now() + pushedAuthorizationResponse.expires_in * 1000,
+                userID
+            );
+
+            authorizeRequest.searchParams.append("client_id", configData.clientID);
+            authorizeRequest.searchParams.append("request_uri", pushedAuthorizationResponse.request_uri);
+
+            return authorizeRequest.toString();
+        }
 
         for (const [ key, value ] of authorizeRequestParams.entries()) {
-            authorizeRequest.searchParams.append(key, value);
+            ([] as string[]).concat(value).forEach((item: string) => authorizeRequest.searchParams.append(key, item));
         }
 
         return authorizeRequest.toString();
     }
 
+    public async getAuthorizationURLExpiry(userID?: string): Promise<number | undefined> {
+        const expiry: number | undefined = (await this._dataLayer.getTemporaryDataParameter(
+            AUTHORIZATION_URL_EXPIRY, userID)) as number | undefined;
+
+        return expiry || undefined;
+    }
+
+    public async getStepUpAuthorizationURL(
+        wwwAuthenticate: string,
+        config?: AuthorizationURLParams,
+        userID?: string
+    ): Promise<string> {
+        const challenge: Record<string, string> = AuthenticationUtils.parseWWWAuthenticateHeader(wwwAuthenticate);
+
+        if (challenge.error !== INSUFFICIENT_USER_AUTHENTICATION) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-GSUAU-IV01",
+                "Invalid step-up challenge.",
+                `The WWW-Authenticate header does not contain the ${ INSUFFICIENT_USER_AUTHENTICATION } error.`
+            );
+        }
+
+        const stepUpConfig: AuthorizationURLParams = { ...config };
+
+        if (challenge[ ACR_VALUES ]) {
+            stepUpConfig.acrValues = challenge[ ACR_VALUES ].split(" ");
+        }
+
+        if (challenge[ MAX_AGE ] && !isNaN(parseInt(challenge[ MAX_AGE ]))) {
+            stepUpConfig.maxAge = parseInt(challenge[ MAX_AGE ]);
+        }
+
+        return this.getAuthorizationURL(stepUpConfig, userID);
+    }
+
+    public async pushAuthorizationRequest(
+        authorizeRequestParams: Map<string, string | string[]>
+    ): Promise<PushedAuthorizationResponse> {
+        const parEndpoint: string | undefined = (await this._oidcProviderMetaData())
+            .pushed_authorization_request_endpoint;
+        const configData: StrictAuthClientConfig = await this._config();
+
+        if (!parEndpoint || parEndpoint.trim().length === 0) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-PAR-NF01",
+                "No pushed authorization request endpoint found.",
+                "No pushed authorization request endpoint was found in the OIDC provider meta data returned by " +
+                "the well-known endpoint or the pushed authorization request endpoint passed to the SDK is empty."
+            );
+        }
+
+        const clientAuthentication: ClientAuthentication =
+            await this._authenticationHelper.getClientAuthentication(parEndpoint);
+        const body: URLSearchParams = new URLSearchParams(clientAuthentication.params);
+
+        for (const [ key, value ] of authorizeRequestParams.entries()) {
+            body.delete(key);
+            ([] as string[]).concat(value).forEach((item: string) => body.append(key, item));
+        }
+
+        let response: Response;
+
+        try {
+            response = await fetch(parEndpoint, {
+                body: body,
+                credentials: configData.sendCookiesInRequests
+                    ? FetchCredentialTypes.Include
+                    : FetchCredentialTypes.SameOrigin,
+                headers: new Headers({
+                    ...AuthenticationUtils.getTokenRequestHeaders(),
+                    ...clientAuthentication.headers
+                }),
+                method: "POST"
+            });
+        } catch (error: any) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-PAR-NE02",
+                "The pushed authorization request failed.",
+                error ?? "The request sent to push the authorization request parameters failed."
+            );
+        }
+
+        if (!response.ok) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-PAR-HE03",
+                `Invalid response status received for the pushed authorization request (${response.statusText}).`,
+                await response.json()
+            );
+        }
+
+        const pushedAuthorizationResponse: PushedAuthorizationResponse = await response.json();
+
+        // The request URI is short-lived and a response without a valid lifetime cannot be relied upon.
+        if (!pushedAuthorizationResponse?.request_uri || !(pushedAuthorizationResponse.expires_in > 0)) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-PAR-IV04",
+                "Invalid pushed authorization response.",
+                "The response of the pushed authorization request does not contain a `request_uri` " +
+                "or a valid `expires_in` value."
+            );
+        }
+
+        return pushedAuthorizationResponse;
+    }
+
     public async requestAccessToken(
         authorizationCode: string,
         sessionState: string,
         state: string,
-        userID?: string
+        userID?: string,
+        tokenRequestConfig?: TokenRequestConfig
     ): Promise<TokenResponse> {
         const tokenEndpoint: string | undefined = (await this._oidcProviderMetaData()).token_endpoint;
         const configData: StrictAuthClientConfig = await this._config();
@@ -165,13 +420,15 @@ export class AuthenticationCore<T> {
         sessionState && (await this._dataLayer.setSessionDataParameter(
             SESSION_STATE as keyof SessionData, sessionState, userID));
 
-        const body: URLSearchParams = new URLSearchParams();
+        // The authorization details, the access tokens of the resources and the requested claims belong to the
+        // previous session, if any.
+        await this._dataLayer.removeSessionDataParameter("authorization_details", userID);
+        await this._dataLayer.removeSessionDataParameter("resource_access_tokens", userID);
+        await this._dataLayer.removeSessionDataParameter("userinfo_claims", userID);
 
-        body.set("client_id", configData.clientID);
-
-        if (configData.clientSecret && configData.clientSecret.trim().length > 0) {
-            body.set("client_secret", configData.clientSecret);
-        }
+        const clientAuthentication: ClientAuthentication =
+            await this._authenticationHelper.getClientAuthentication(tokenEndpoint);
+        const body: URLSearchParams = new URLSearchParams(clientAuthentication.params);
 
         const code: string = authorizationCode;
 
@@ -180,6 +437,12 @@ export class AuthenticationCore<T> {
         body.set("grant_type", "authorization_code");
         body.set("redirect_uri", configData.signInRedirectURL);
 
+        if (tokenRequestConfig?.authorizationDetails) {
+            body.set("authorization_details", JSON.stringify(tokenRequestConfig.authorizationDetails));
+        }
+
+        tokenRequestConfig?.resource?.forEach((resource: string) => body.append(RESOURCE, resource));
+
         if (configData.enablePKCE) {
             body.set(
                 "code_verifier", `${await this._dataLayer.getTemporaryDataParameter(
@@ -194,17 +457,52 @@ export class AuthenticationCore<T> {
             );
         }
 
+        const nonceKey: string = AuthenticationUtils.extractNonceKeyFromStateParam(state);
+        const nonce: string = (await this._dataLayer.getTemporaryDataParameter(nonceKey, userID)) as string;
+
+        await this._dataLayer.removeTemporaryDataParameter(nonceKey, userID);
+
+        // A missing nonce means that this client didn't start the authorization request, so the ID token can't be
+        // bound to it.
+        if (!nonce) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RAT1-NF04",
+                "Nonce not found.",
+                "No nonce was found for the state of the authorization response. The authorization request was " +
+                "either not initiated by this client or its temporary data has been lost."
+            );
+        }
+
+        const acrValuesKey: string = AuthenticationUtils.extractRequestParamKeyFromStateParam(ACR_VALUES, state);
+        const maxAgeKey: string = AuthenticationUtils.extractRequestParamKeyFromStateParam(MAX_AGE, state);
+        const claimsKey: string = AuthenticationUtils.extractRequestParamKeyFromStateParam(CLAIMS, state);
+        const claims: string | undefined =
+            (await this._dataLayer.getTemporaryDataParameter(claimsKey, userID)) as string | undefined;
+        const claimsRequest: ClaimsRequest = claims ? JSON.parse(claims) : {};
+        const authenticationRequirements: AuthenticationRequirements = {
+            acrValues: (await this._dataLayer.getTemporaryDataParameter(acrValuesKey, userID)) as string[] | undefined,
+            claims: claimsRequest.id_token,
+            maxAge: (await this._dataLayer.getTemporaryDataParameter(maxAgeKey, userID)) as number | undefined
+        };
+
+        await this._dataLayer.removeTemporaryDataParameter(acrValuesKey, userID);
+        await this._dataLayer.removeTemporaryDataParameter(maxAgeKey, userID);
+        await this._dataLayer.removeTemporaryDataParameter(claimsKey, userID);
+
         let tokenResponse: Response;
 
         try {
-            tokenResponse = await fetch(tokenEndpoint, {
+            tokenResponse = await this._authenticationHelper.fetchWithDPoP(tokenEndpoint, {
                 body: body,
                 credentials: configData.sendCookiesInRequests
                     ? FetchCredentialTypes.Include
                     : FetchCredentialTypes.SameOrigin,
-                headers: new Headers(AuthenticationUtils.getTokenRequestHeaders()),
+                headers: new Headers({
+                    ...AuthenticationUtils.getTokenRequestHeaders(),
+                    ...clientAuthentication.headers
+                }),
                 method: "POST"
-            });
+            }, userID);
         } catch (error: any) {
             throw new AsgardeoAuthException(
                 "JS-AUTH_CORE-RAT1-NE02",
@@ -221,10 +519,423 @@ export class AuthenticationCore<T> {
             );
         }
 
-        return await this._authenticationHelper.handleTokenResponse(tokenResponse, userID);
+        const response: TokenResponse = await this._authenticationHelper.handleTokenResponse(
+            tokenResponse, userID, nonce, authenticationRequirements);
+
+        // The claims requested from the UserInfo endpoint are verified when the user information is retrieved.
+        if (claimsRequest.userinfo) {
+            await this._dataLayer.setSessionData({ userinfo_claims: claimsRequest.userinfo }, userID);
+        }
+
+        return response;
+    }
+
+    public async handleAuthorizationCallback(
+        callback: string | Record<string, string>,
+        userID?: string,
+        tokenRequestConfig?: TokenRequestConfig
+    ): Promise<TokenResponse> {
+        let params: URLSearchParams = AuthenticationUtils.getAuthorizationResponseParams(callback);
+
+        if (AuthenticationUtils.isJwtResponseMode((await this._config()).responseMode)) {
+            const responseToken: string | null = params.get("response");
+
+            if (!responseToken) {
+                throw new AsgardeoAuthException(
+                    "JS-AUTH_CORE-HAC-NF06",
+                    "Authorization response JWT not found.",
+                    "The authorization response does not contain the `response` parameter required by the " +
+                    "configured response mode."
+                );
+            }
+
+            params = new URLSearchParams(
+                await this._authenticationHelper.validateAuthorizationResponseToken(responseToken));
+        }
+
+        const state: string | null = params.get(STATE);
+        const tempData: TemporaryData = (await this._dataLayer.getTemporaryData(userID)) ?? {};
+
+        // The state should correlate the response to an authorization request initiated by this client.
+        if (!state || !(AuthenticationUtils.extractPKCEKeyFromStateParam(state) in tempData
+            || AuthenticationUtils.extractNonceKeyFromStateParam(state) in tempData)) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-HAC-IV01",
+                "Invalid state.",
+                "The state of the authorization response does not match any pending authorization request."
+            );
+        }
+
+        const oidcProviderMetaData: OIDCProviderMetaData = await this._oidcProviderMetaData();
+        const issuer: string | null = params.get("iss");
+
+        // The issuer is verified to protect against mix-up attacks before the code is sent to any token endpoint.
+        if ((issuer !== null || oidcProviderMetaData.authorization_response_iss_parameter_supported)
+            && issuer !== oidcProviderMetaData.issuer) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-HAC-IV02",
+                "Invalid issuer.",
+                "The `iss` parameter of the authorization response is either missing or does not match the " +
+                "issuer of the authorization server."
+            );
+        }
+
+        const error: string | null = params.get("error");
+
+        if (error) {
+            await this._dataLayer.removeTemporaryDataParameter(
+                AuthenticationUtils.extractPKCEKeyFromStateParam(state), userID);
+            await this._dataLayer.removeTemporaryDataParameter(
+                AuthenticationUtils.extractNonceKeyFromStateParam(state), userID);
+            await this._dataLayer.removeTemporaryDataParameter(
+                AuthenticationUtils.extractRequestParamKeyFromStateParam(ACR_VALUES, state), userID);
+            await this._dataLayer.removeTemporaryDataParameter(
+                AuthenticationUtils.extractRequestParamKeyFromStateParam(MAX_AGE, state), userID);
+            await this._dataLayer.removeTemporaryDataParameter(
+                AuthenticationUtils.extractRequestParamKeyFromStateParam(CLAIMS, state), userID);
+
+            throw new AsgardeoAuthorizationException(
+                "JS-AUTH_CORE-HAC-SE03",
+                error,
+                params.get("error_description") ?? undefined,
+                params.get("error_uri") ?? undefined
+            );
+        }
+
+        const authorizationCode: string | null = params.get(AUTHORIZATION_CODE);
+
+        if (!authorizationCode) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-HAC-NF04",
+                "Authorization code not found.",
+                "The authorization response does not contain an authorization code."
+            );
+        }
+
+        if ((await this._config()).responseType === ResponseType.codeIdToken) {
+            const idToken: string | null = params.get("id_token");
+
+            if (!idToken) {
+                throw new AsgardeoAuthException(
+                    "JS-AUTH_CORE-HAC-NF05",
+                    "ID token not found.",
+                    "The authorization response of the hybrid flow does not contain an ID token."
+                );
+            }
+
+            await this._authenticationHelper.validateFrontChannelIdToken(
+                idToken,
+                authorizationCode,
+                (await this._dataLayer.getTemporaryDataParameter(
+                    AuthenticationUtils.extractNonceKeyFromStateParam(state), userID)) as string
+            );
+        }
+
+        return this.requestAccessToken(
+            authorizationCode, params.get(SESSION_STATE) ?? "", state, userID, tokenRequestConfig);
+    }
+
+    public async requestDeviceAuthorization(scope?: string[]): Promise<DeviceAuthorizationResponse> {
+        const deviceAuthorizationEndpoint: string | undefined = (await this._oidcProviderMetaData())
+            .device_authorization_endpoint;
+        const configData: StrictAuthClientConfig = await this._config();
+
+        if (!deviceAuthorizationEndpoint || deviceAuthorizationEndpoint.trim().length === 0) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RDA-NF01",
+                "No device authorization endpoint found.",
+                "No device authorization endpoint was found in the OIDC provider meta data returned by the " +
+                "well-known endpoint or the device authorization endpoint passed to the SDK is empty."
+            );
+        }
+
+        const requestedScope: string[] = (scope ?? configData.scope ?? [])
+            .filter((scopeValue: string) => scopeValue !== OIDC_SCOPE);
+
+        const clientAuthentication: ClientAuthentication =
+            await this._authenticationHelper.getClientAuthentication(deviceAuthorizationEndpoint);
+        const body: URLSearchParams = new URLSearchParams(clientAuthentication.params);
+
+        body.set("scope", [ OIDC_SCOPE, ...requestedScope ].join(" "));
+
+        let response: Response;
+
+        try {
+            response = await fetch(deviceAuthorizationEndpoint, {
+                body: body,
+                credentials: configData.sendCookiesInRequests
+                    ? FetchCredentialTypes.Include
+                    : FetchCredentialTypes.SameOrigin,
+                headers: new Headers({
+                    ...AuthenticationUtils.getTokenRequestHeaders(),
+                    ...clientAuthentication.headers
+                }),
+                method: "POST"
+            });
+        } catch (error: any) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RDA-NE02",
+                "The device authorization request failed.",
+                error ?? "The request sent to the device authorization endpoint failed."
+            );
+        }
+
+        if (!response.ok) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RDA-HE03",
+                `Invalid response status received for the device authorization request (${response.statusText}).`,
+                await response.json()
+            );
+        }
+
+        const deviceAuthorizationResponse: RawDeviceAuthorizationResponse = await response.json();
+
+        if (!deviceAuthorizationResponse?.device_code || !deviceAuthorizationResponse.user_code
+            || !deviceAuthorizationResponse.verification_uri || !(deviceAuthorizationResponse.expires_in > 0)) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RDA-IV04",
+                "Invalid device authorization response.",
+                "The response of the device authorization request does not contain a `device_code`, " +
+                "a `user_code`, a `verification_uri` or a valid `expires_in` value."
+            );
+        }
+
+        return {
+            deviceCode: deviceAuthorizationResponse.device_code,
+            expiresIn: deviceAuthorizationResponse.expires_in,
+            interval: deviceAuthorizationResponse.interval ?? DEFAULT_POLLING_INTERVAL,
+            userCode: deviceAuthorizationResponse.user_code,
+            verificationUri: deviceAuthorizationResponse.verification_uri,
+            verificationUriComplete: deviceAuthorizationResponse.verification_uri_complete
+        };
+    }
+
+    public async pollDeviceAccessToken(
+        deviceAuthorization: DeviceAuthorizationResponse,
+        signal?: AbortSignal,
+        userID?: string
+    ): Promise<TokenResponse> {
+        return this._authenticationHelper.pollTokenEndpoint(
+            {
+                device_code: deviceAuthorization.deviceCode,
+                grant_type: DEVICE_CODE_GRANT_TYPE
+            },
+            deviceAuthorization.interval,
+            deviceAuthorization.expiresIn,
+            signal,
+            userID
+        );
+    }
+
+    public async requestBackchannelAuthentication(
+        config: BackchannelAuthenticationConfig
+    ): Promise<BackchannelAuthenticationResponse> {
+        const oidcProviderMetaData: OIDCProviderMetaData = await this._oidcProviderMetaData();
+        const backchannelAuthenticationEndpoint: string | undefined =
+            oidcProviderMetaData.backchannel_authentication_endpoint;
+        const configData: StrictAuthClientConfig = await this._config();
+
+        if (!backchannelAuthenticationEndpoint || backchannelAuthenticationEndpoint.trim().length === 0) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RBA-NF01",
+                "No backchannel authentication endpoint found.",
+                "No backchannel authentication endpoint was found in the OIDC provider meta data returned by the " +
+                "well-known endpoint or the backchannel authentication endpoint passed to the SDK is empty."
+            );
+        }
+
+        // The SDK obtains the tokens by polling the token endpoint and hence, requires the poll delivery mode.
+        if (oidcProviderMetaData.backchannel_token_delivery_modes_supported
+            && !oidcProviderMetaData.backchannel_token_delivery_modes_supported.includes("poll")) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RBA-IV02",
+                "Poll delivery mode not supported.",
+                "The authorization server does not support the `poll` token delivery mode."
+            );
+        }
+
+        if (!config.loginHint && !config.loginHintToken && !config.idTokenHint) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RBA-IV03",
+                "No user hint found.",
+                "One of `loginHint`, `loginHintToken` or `idTokenHint` should be passed to identify the user."
+            );
+        }
+
+        const requestedScope: string[] = (config.scope ?? configData.scope ?? [])
+            .filter((scopeValue: string) => scopeValue !== OIDC_SCOPE);
+
+        const clientAuthentication: ClientAuthentication =
+            await this._authenticationHelper.getClientAuthentication(backchannelAuthenticationEndpoint);
+        const body: URLSearchParams = new URLSearchParams(clientAuthentication.params);
+
+        body.set("scope", [ OIDC_SCOPE, ...requestedScope ].join(" "));
+        config.loginHint && body.set("login_hint", config.loginHint);
+        config.loginHintToken && body.set("login_hint_token", config.loginHintToken);
+        config.idTokenHint && body.set("id_token_hint", config.idTokenHint);
+        config.bindingMessage && body.set("binding_message", config.bindingMessage);
+        config.userCode && body.set("user_code", config.userCode);
+        config.requestedExpiry && body.set("requested_expiry", config.requestedExpiry.toString());
+
+        let response: Response;
+
+        try {
+            response = await fetch(backchannelAuthenticationEndpoint, {
+                body: body,
+                credentials: configData.sendCookiesInRequests
+                    ? FetchCredentialTypes.Include
+                    : FetchCredentialTypes.SameOrigin,
+                headers: new Headers({
+                    ...AuthenticationUtils.getTokenRequestHeaders(),
+                    ...clientAuthentication.headers
+                }),
+                method: "POST"
+            });
+        } catch (error: any) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RBA-NE04",
+                "The backchannel authentication request failed.",
+                error ?? "The request sent to the backchannel authentication endpoint failed."
+            );
+        }
+
+        if (!response.ok) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RBA-HE05",
+                "Invalid response status received for the backchannel authentication request " +
+                `(${response.statusText}).`,
+                await response.json()
+            );
+        }
+
+        const backchannelAuthenticationResponse: RawBackchannelAuthenticationResponse = await response.json();
+
+        if (!backchannelAuthenticationResponse?.auth_req_id || !(backchannelAuthenticationResponse.expires_in > 0)) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RBA-IV06",
+                "Invalid backchannel authentication response.",
+                "The response of the backchannel authentication request does not contain an `auth_req_id` " +
+                "or a valid `expires_in` value."
+            );
+        }
+
+        return {
+            authReqId: backchannelAuthenticationResponse.auth_req_id,
+            expiresIn: backchannelAuthenticationResponse.expires_in,
+            interval: backchannelAuthenticationResponse.interval ?? DEFAULT_POLLING_INTERVAL
+        };
+    }
+
+    public async pollBackchannelAccessToken(
+        backchannelAuthentication: BackchannelAuthenticationResponse,
+        signal?: AbortSignal,
+        userID?: string
+    ): Promise<TokenResponse> {
+        return this._authenticationHelper.pollTokenEndpoint(
+            {
+                auth_req_id: backchannelAuthentication.authReqId,
+                grant_type: CIBA_GRANT_TYPE
+            },
+            backchannelAuthentication.interval,
+            backchannelAuthentication.expiresIn,
+            signal,
+            userID
+        );
+    }
+
+    public async requestClientCredentialsToken(
+        scope?: string[],
+        forceRefresh?: boolean
+    ): Promise<ClientCredentialsTokenResponse> {
+        const tokenEndpoint: string | undefined = (await this._oidcProviderMetaData()).token_endpoint;
+        const configData: StrictAuthClientConfig = await this._config();
+
+        if (!tokenEndpoint || tokenEndpoint.trim().length === 0) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RCCT-NF01",
+                "Token endpoint not found.",
+                "No token endpoint was found in the OIDC provider meta data returned by the well-known endpoint " +
+                "or the token endpoint passed to the SDK is empty."
+            );
+        }
+
+        // The tokens are cached against the set of requested scopes irrespective of the order of the scopes.
+        const scopeKey: string = (scope ?? [])
+            .filter((scopeValue: string, index: number, scopes: string[]) => scopes.indexOf(scopeValue) === index)
+            .sort()
+            .join(" ");
+        const cachedTokens: Record<string, ClientCredentialsTokenResponse> = (await this._dataLayer
+            .getCustomData<Record<string, ClientCredentialsTokenResponse>>(CLIENT_CREDENTIALS_TOKENS)) ?? {};
+        const cachedToken: ClientCredentialsTokenResponse | undefined = cachedTokens[ scopeKey ];
+
+        if (!forceRefresh && cachedToken?.expiresIn && cachedToken.createdAt
+            + (parseInt(cachedToken.expiresIn) - TOKEN_EXPIRY_LEEWAY) * 1000 > new Date().getTime()) {
+            return cachedToken;
+        }
+
+        const clientAuthentication: ClientAuthentication =
+            await this._authenticationHelper.getClientAuthentication(tokenEndpoint);
+        const body: URLSearchParams = new URLSearchParams(clientAuthentication.params);
+
+        body.set("grant_type", CLIENT_CREDENTIALS_GRANT_TYPE);
+        scopeKey && body.set("scope", scopeKey);
+
+        let tokenResponse: Response;
+
+        // The token is not DPoP-bound since the DPoP key pairs belong to the sessions of the users.
+        try {
+            tokenResponse = await fetch(tokenEndpoint, {
+                body: body,
+                credentials: configData.sendCookiesInRequests
+                    ? FetchCredentialTypes.Include
+                    : FetchCredentialTypes.SameOrigin,
+                headers: new Headers({
+                    ...AuthenticationUtils.getTokenRequestHeaders(),
+                    ...clientAuthentication.headers
+                }),
+                method: "POST"
+            });
+        } catch (error: any) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RCCT-NE02",
+                "Requesting access token failed",
+                error ?? "The request to get the access token from the server failed."
+            );
+        }
+
+        if (!tokenResponse.ok) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RCCT-HE03",
+                `Requesting access token failed with ${tokenResponse.statusText}`,
+                await tokenResponse.json()
+            );
+        }
+
+        const parsedResponse: RawTokenResponse = await tokenResponse.json();
+
+        if (!parsedResponse?.access_token) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RCCT-IV04",
+                "Invalid token response.",
+                "The response of the client credentials grant request does not contain an access token."
+            );
+        }
+
+        const clientCredentialsToken: ClientCredentialsTokenResponse = {
+            accessToken: parsedResponse.access_token,
+            createdAt: new Date().getTime(),
+            expiresIn: parsedResponse.expires_in,
+            scope: parsedResponse.scope ?? scopeKey,
+            tokenType: parsedResponse.token_type
+        };
+
+        await this._dataLayer.setCustomData<Record<string, ClientCredentialsTokenResponse>>(
+            CLIENT_CREDENTIALS_TOKENS, { [ scopeKey ]: clientCredentialsToken });
+
+        return clientCredentialsToken;
     }
 
-    public async refreshAccessToken(userID?: string): Promise<TokenResponse> {
+    public async refreshAccessToken(userID?: string, tokenRequestConfig?: TokenRequestConfig): Promise<TokenResponse> {
         const tokenEndpoint: string | undefined = (await this._oidcProviderMetaData()).token_endpoint;
         const configData: StrictAuthClientConfig = await this._config();
         const sessionData: SessionData = await this._dataLayer.getSessionData(userID);
@@ -247,27 +958,33 @@ export class AuthenticationCore<T> {
             );
         }
 
-        const body: string[] = [];
+        const clientAuthentication: ClientAuthentication =
+            await this._authenticationHelper.getClientAuthentication(tokenEndpoint);
+        const body: URLSearchParams = new URLSearchParams(clientAuthentication.params);
 
-        body.push(`client_id=${ configData.clientID }`);
-        body.push(`refresh_token=${ sessionData.refresh_token }`);
-        body.push("grant_type=refresh_token");
+        body.set("refresh_token", sessionData.refresh_token);
+        body.set("grant_type", "refresh_token");
 
-        if (configData.clientSecret && configData.clientSecret.trim().length > 0) {
-            body.push(`client_secret=${ configData.clientSecret }`);
+        if (tokenRequestConfig?.authorizationDetails) {
+            body.set("authorization_details", JSON.stringify(tokenRequestConfig.authorizationDetails));
         }
 
+        tokenRequestConfig?.resource?.forEach((resource: string) => body.append(RESOURCE, resource));
+
         let tokenResponse: Response;
 
         try {
-            tokenResponse = await fetch(tokenEndpoint, {
-                body: body.join("&"),
+            tokenResponse = await this._authenticationHelper.fetchWithDPoP(tokenEndpoint, {
+                body: body,
                 credentials: configData.sendCookiesInRequests
                     ? FetchCredentialTypes.Include
                     : FetchCredentialTypes.SameOrigin,
-                headers: new Headers(AuthenticationUtils.getTokenRequestHeaders()),
+                headers: new Headers({
+                    ...AuthenticationUtils.getTokenRequestHeaders(),
+                    ...clientAuthentication.headers
+                }),
                 method: "POST"
-            });
+            }, userID);
         } catch (error: any) {
             throw new AsgardeoAuthException(
                 "JS-AUTH_CORE-RAT2-NR03",
@@ -288,54 +1005,79 @@ export class AuthenticationCore<T> {
     }
 
     public async revokeAccessToken(userID?: string): Promise<FetchResponse> {
-        const revokeTokenEndpoint: string | undefined = (await this._oidcProviderMetaData()).revocation_endpoint;
-        const configData: StrictAuthClientConfig = await this._config();
+        let response: Response;
 
-        if (!revokeTokenEndpoint || revokeTokenEndpoint.trim().length === 0) {
-            throw new AsgardeoAuthException(
-                "JS-AUTH_CORE-RAT3-NF01",
-                "No revoke access token endpoint found.",
-                "No revoke access token endpoint was found in the OIDC provider meta data returned by " +
-                "the well-known endpoint or the revoke access token endpoint passed to the SDK is empty."
+        try {
+            response = await this._authenticationHelper.revokeToken(
+                (await this._dataLayer.getSessionData(userID)).access_token,
+                TokenTypeHint.accessToken,
+                userID
             );
+        } catch (error: any) {
+            // The error codes of this method predate the generic token revocation and are retained.
+            if (error instanceof AsgardeoAuthException && error.code) {
+                throw new AsgardeoAuthException(
+                    error.code.replace("JS-AUTH_HELPER-RT-", "JS-AUTH_CORE-RAT3-"),
+                    error.name,
+                    error.message
+                );
+            }
+
+            throw error;
         }
 
-        const body: string[] = [];
+        this._authenticationHelper.clearUserSessionData(userID);
 
-        body.push(`client_id=${ configData.clientID }`);
-        body.push(`token=${ (await this._dataLayer.getSessionData(userID)).access_token }`);
-        body.push("token_type_hint=access_token");
+        return Promise.resolve(response);
+    }
 
-        let response: Response;
+    public async revokeTokens(
+        tokenTypes: TokenTypeHint[] = [ TokenTypeHint.refreshToken, TokenTypeHint.accessToken ],
+        userID?: string
+    ): Promise<void> {
+        const sessionData: SessionData = await this._dataLayer.getSessionData(userID);
 
-        try {
-            response = await fetch(revokeTokenEndpoint, {
-                body: body.join("&"),
-                credentials: configData.sendCookiesInRequests
-                    ? FetchCredentialTypes.Include
-                    : FetchCredentialTypes.SameOrigin,
-                headers: new Headers(AuthenticationUtils.getTokenRequestHeaders()),
-                method: "POST"
-            });
-        } catch (error: any) {
-            throw new AsgardeoAuthException(
-                "JS-AUTH_CORE-RAT3-NE02",
-                "The request to revoke access token failed.",
-                error ?? "The request sent to revoke the access token failed."
-            );
+        // The refresh token is revoked first so that no new access token can be obtained in the meantime.
+        for (const tokenType of [ TokenTypeHint.refreshToken, TokenTypeHint.accessToken ]) {
+            const token: string | undefined = sessionData?.[ tokenType ];
+
+            if (!tokenTypes.includes(tokenType) || !token) {
+                continue;
+            }
+
+            await this._authenticationHelper.revokeToken(token, tokenType, userID);
+            await this._dataLayer.removeSessionDataParameter(tokenType, userID);
         }
+    }
 
-        if (response.status !== 200 || !response.ok) {
-            throw new AsgardeoAuthException(
-                "JS-AUTH_CORE-RAT3-HE03",
-                `Invalid response status received for revoke access token request (${response.statusText}).`,
-                await response.json()
-            );
+    public async signOut(userID?: string, config?: SignOutURLConfig): Promise<string> {
+        // The sign-out URL is built first as it may require the ID token that is cleared afterwards.
+        const signOutURL: string = await this.getSignOutURL(userID, config);
+
+        // The authentication data is cleared even if a token could not be revoked so that no token is left behind.
+        try {
+            await this.revokeTokens(undefined, userID);
+        } finally {
+            await this._authenticationHelper.clearUserSessionData(userID);
         }
 
-        this._authenticationHelper.clearUserSessionData(userID);
+        return signOutURL;
+    }
+
+    public async handleBackchannelLogout(logoutToken: string): Promise<string[]> {
+        const payload: DecodedLogoutTokenPayload = await this._authenticationHelper.validateLogoutToken(logoutToken);
+        const sessionIndex: SessionIndex = await this._authenticationHelper.getSessionIndex();
+
+        // A `sid` identifies a single OP session whereas a `sub` covers every session of the user.
+        const userIDs: string[] = (payload.sid
+            ? sessionIndex.sid[ payload.sid ]
+            : sessionIndex.sub[ payload.sub as string ]) ?? [];
+
+        for (const userID of userIDs) {
+            await this._authenticationHelper.clearUserSessionData(userID || undefined);
+        }
 
-        return Promise.resolve(response);
+        return userIDs;
     }
 
     public async requestCustomGrant(
@@ -376,11 +1118,32 @@ export class AuthenticationCore<T> {
         let requestHeaders: Record<string, any> = {
             ...AuthenticationUtils.getTokenRequestHeaders()
         };
+        let accessToken: string | undefined;
+
+        // The client is authenticated only if the custom-grant data doesn't already authenticate it.
+        if (!("client_secret" in customGrantParams.data) && !("client_assertion" in customGrantParams.data)) {
+            const clientAuthentication: ClientAuthentication =
+                await this._authenticationHelper.getClientAuthentication(tokenEndpoint);
+
+            Object.entries(clientAuthentication.params).forEach(([ key, value ]: [ key: string, value: string ]) => {
+                if (!(key in customGrantParams.data)) {
+                    data.push(`${ key }=${ encodeURIComponent(value) }`);
+                }
+            });
+
+            requestHeaders = {
+                ...requestHeaders,
+                ...clientAuthentication.headers
+            };
+        }
 
         if (customGrantParams.attachToken) {
+            const sessionData: SessionData = await this._dataLayer.getSessionData(userID);
+
+            accessToken = sessionData.access_token;
             requestHeaders = {
                 ...requestHeaders,
-                Authorization: `Bearer ${ (await this._dataLayer.getSessionData(userID)).access_token }`
+                Authorization: AuthenticationUtils.getAuthorizationHeaderValue(accessToken, sessionData.token_type)
             };
         }
 
@@ -396,7 +1159,8 @@ export class AuthenticationCore<T> {
         let response: Response;
 
         try {
-            response = await fetch(tokenEndpoint, requestConfig);
+            response = await this._authenticationHelper.fetchWithDPoP(
+                tokenEndpoint, requestConfig, userID, accessToken);
         } catch (error: any) {
             throw new AsgardeoAuthException(
                 "JS-AUTH_CORE-RCG-NE02",
@@ -420,7 +1184,290 @@ export class AuthenticationCore<T> {
         }
     }
 
-    public async getBasicUserInfo(userID?: string): Promise<BasicUserInfo> {
+    public async exchangeToken(config: TokenExchangeConfig, userID?: string): Promise<TokenExchangeResponse> {
+        if (config.actorToken && !config.actorTokenType) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-ET-IV01",
+                "Actor token type not found.",
+                "The type of the actor token should be specified when an actor token is passed."
+            );
+        }
+
+        const tokenEndpoint: string | undefined = config.tokenEndpoint && config.tokenEndpoint.trim().length !== 0
+            ? config.tokenEndpoint
+            : (await this._oidcProviderMetaData()).token_endpoint;
+        const configData: StrictAuthClientConfig = await this._config();
+
+        if (!tokenEndpoint || tokenEndpoint.trim().length === 0) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-ET-NF03",
+                "Token endpoint not found.",
+                "No token endpoint was found in the OIDC provider meta data returned by the well-known endpoint " +
+                "or the token endpoint passed to the SDK is empty."
+            );
+        }
+
+        const clientAuthentication: ClientAuthentication =
+            await this._authenticationHelper.getClientAuthentication(tokenEndpoint);
+        const body: URLSearchParams = new URLSearchParams(clientAuthentication.params);
+
+        body.set("grant_type", TOKEN_EXCHANGE_GRANT_TYPE);
+        body.set("subject_token", config.subjectToken);
+        body.set("subject_token_type", config.subjectTokenType);
+        config.actorToken && body.set("actor_token", config.actorToken);
+        config.actorTokenType && body.set("actor_token_type", config.actorTokenType);
+        config.audience && body.set("audience", config.audience);
+        config.resource && body.set(RESOURCE, config.resource);
+        config.scope && config.scope.length > 0 && body.set("scope", config.scope.join(" "));
+        config.requestedTokenType && body.set("requested_token_type", config.requestedTokenType);
+
+        const requestConfig: FetchRequestConfig = {
+            body: body,
+            credentials: configData.sendCookiesInRequests
+                ? FetchCredentialTypes.Include
+                : FetchCredentialTypes.SameOrigin,
+            headers: new Headers({
+                ...AuthenticationUtils.getTokenRequestHeaders(),
+                ...clientAuthentication.headers
+            }),
+            method: "POST"
+        };
+
+        let tokenResponse: Response;
+
+        // Only a token that replaces the tokens of the session is bound to the DPoP key of the session.
+        try {
+            tokenResponse = config.storeSession
+                ? await this._authenticationHelper.fetchWithDPoP(tokenEndpoint, requestConfig, userID)
+                : await fetch(tokenEndpoint, requestConfig);
+        } catch (error: any) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-ET-NE04",
+                "The token exchange request failed.",
+                error ?? "The request sent to exchange the token failed."
+            );
+        }
+
+        if (!tokenResponse.ok) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-ET-HE05",
+                `Invalid response status received for the token exchange request (${ tokenResponse.statusText }).`,
+                await tokenResponse.text()
+            );
+        }
+
+        const response: RawTokenExchangeResponse = await tokenResponse.json();
+
+        if (!response?.access_token || !response.issued_token_type) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-ET-IV02",
+                "Invalid token exchange response.",
+                "The response of the token exchange request does not contain an `access_token` " +
+                "or an `issued_token_type`."
+            );
+        }
+
+        if (config.storeSession) {
+            const sessionData: SessionData | undefined = await this._dataLayer.getSessionData(userID);
+
+            // The ID token and the other tokens of the previous session do not belong to the issued token. The DPoP
+            // key pair is retained since the issued token is bound to it.
+            await this._dataLayer.removeSessionData(userID);
+            await this._authenticationHelper.updateSessionIndex(undefined, userID);
+            await this._dataLayer.setSessionData({
+                access_token: response.access_token,
+                created_at: new Date().getTime(),
+                dpop_key_pair: sessionData?.dpop_key_pair,
+                dpop_nonce: sessionData?.dpop_nonce,
+                expires_in: response.expires_in ?? "",
+                refresh_token: response.refresh_token,
+                scope: response.scope ?? "",
+                token_type: response.token_type
+            }, userID);
+        }
+
+        return {
+            accessToken: response.access_token,
+            expiresIn: response.expires_in,
+            issuedTokenType: response.issued_token_type,
+            refreshToken: response.refresh_token,
+            scope: response.scope,
+            tokenType: response.token_type
+        };
+    }
+
+    public async getUserInfo(userID?: string): Promise<UserInfoResponse> {
+        const userInfoEndpoint: string | undefined = (await this._oidcProviderMetaData()).userinfo_endpoint;
+        const configData: StrictAuthClientConfig = await this._config();
+
+        if (!userInfoEndpoint || userInfoEndpoint.trim().length === 0) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-GUI-NF01",
+                "No UserInfo endpoint found.",
+                "No UserInfo endpoint was found in the OIDC provider meta data returned by the well-known " +
+                "endpoint or the UserInfo endpoint passed to the SDK is empty."
+            );
+        }
+
+        const sessionData: SessionData = await this._dataLayer.getSessionData(userID);
+
+        if (!sessionData?.access_token) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-GUI-NF02",
+                "No access token found.",
+                "No access token was found in the session to be sent to the UserInfo endpoint."
+            );
+        }
+
+        let response: Response;
+
+        try {
+            response = await this._authenticationHelper.fetchWithDPoP(userInfoEndpoint, {
+                credentials: configData.sendCookiesInRequests
+                    ? FetchCredentialTypes.Include
+                    : FetchCredentialTypes.SameOrigin,
+                headers: new Headers({
+                    Accept: "application/json, application/jwt",
+                    Authorization: AuthenticationUtils.getAuthorizationHeaderValue(
+                        sessionData.access_token, sessionData.token_type)
+                }),
+                method: "GET"
+            }, userID, sessionData.access_token);
+        } catch (error: any) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-GUI-NE03",
+                "The UserInfo request failed.",
+                error ?? "The request sent to get the user information from the UserInfo endpoint failed."
+            );
+        }
+
+        if (!response.ok) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-GUI-HE04",
+                `Invalid response status received for the UserInfo request (${response.statusText}).`,
+                await response.text()
+            );
+        }
+
+        const idTokenSubject: string | undefined = sessionData.id_token
+            ? this._cryptoHelper.decodeIDToken(sessionData.id_token).sub
+            : undefined;
+        let userInfo: UserInfoResponse;
+
+        // The UserInfo response is a signed JWT when the client is registered to receive signed responses.
+        if (response.headers.get("Content-Type")?.includes("application/jwt")) {
+            const userInfoToken: string = await response.text();
+
+            userInfo = this._cryptoHelper.decodeIDToken(userInfoToken) as UserInfoResponse;
+            await this._authenticationHelper.validateUserInfoToken(userInfoToken, idTokenSubject ?? userInfo.sub);
+        } else {
+            userInfo = await response.json();
+        }
+
+        // The `sub` is verified to make sure that the UserInfo response belongs to the authenticated user.
+        if (!userInfo?.sub || userInfo.sub !== idTokenSubject) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-GUI-IV05",
+                "Invalid UserInfo response.",
+                "The `sub` claim of the UserInfo response is either missing or does not match the `sub` claim " +
+                "of the ID token."
+            );
+        }
+
+        const unsatisfiedClaims: string[] = AuthenticationUtils.getUnsatisfiedEssentialClaims(
+            sessionData.userinfo_claims, userInfo);
+
+        if (unsatisfiedClaims.length > 0) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-GUI-IV06",
+                "Essential claims not satisfied.",
+                "The following essential claims requested from the UserInfo endpoint are either missing or do not " +
+                `have the requested value: ${ unsatisfiedClaims.join(", ") }`
+            );
+        }
+
+        return userInfo;
+    }
+
+    public async registerClient(
+        metadata: ClientMetadata,
+        initialAccessToken?: string,
+        applyToConfig?: boolean
+    ): Promise<ClientRegistrationResponse> {
+        const registrationEndpoint: string | undefined = (await this._oidcProviderMetaData()).registration_endpoint;
+
+        if (!registrationEndpoint || registrationEndpoint.trim().length === 0) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RC-NF01",
+                "No registration endpoint found.",
+                "No registration endpoint was found in the OIDC provider meta data returned by the well-known " +
+                "endpoint or the registration endpoint passed to the SDK is empty."
+            );
+        }
+
+        const response: Response = await this._authenticationHelper.sendClientRegistrationRequest(
+            registrationEndpoint, "POST", initialAccessToken, metadata);
+        const registration: ClientRegistrationResponse = await response.json();
+
+        if (!registration?.client_id) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RC-IV02",
+                "Invalid client registration response.",
+                "The response of the client registration request does not contain a `client_id`."
+            );
+        }
+
+        if (applyToConfig) {
+            await this.updateConfig({
+                clientID: registration.client_id,
+                clientSecret: registration.client_secret
+            } as Partial<AuthClientConfig<T>>);
+        }
+
+        return registration;
+    }
+
+    public async getClientRegistration(registration: ClientRegistrationResponse): Promise<ClientRegistrationResponse> {
+        const response: Response = await this._authenticationHelper.sendClientRegistrationRequest(
+            await this._authenticationHelper.resolveClientConfigurationEndpoint(registration),
+            "GET",
+            registration.registration_access_token
+        );
+
+        return {
+            registration_access_token: registration.registration_access_token,
+            registration_client_uri: registration.registration_client_uri,
+            ...(await response.json())
+        };
+    }
+
+    public async updateClientRegistration(
+        registration: ClientRegistrationResponse,
+        metadata: ClientMetadata
+    ): Promise<ClientRegistrationResponse> {
+        const response: Response = await this._authenticationHelper.sendClientRegistrationRequest(
+            await this._authenticationHelper.resolveClientConfigurationEndpoint(registration),
+            "PUT",
+            registration.registration_access_token,
+            { ...metadata, client_id: registration.client_id }
+        );
+
+        return {
+            registration_access_token: registration.registration_access_token,
+            registration_client_uri: registration.registration_client_uri,
+            ...(await response.json())
+        };
+    }
+
+    public async deleteClientRegistration(registration: ClientRegistrationResponse): Promise<void> {
+        await this._authenticationHelper.sendClientRegistrationRequest(
+            await this._authenticationHelper.resolveClientConfigurationEndpoint(registration),
+            "DELETE",
+            registration.registration_access_token
+        );
+    }
+
+    public async getBasicUserInfo(userID?: string, fetchUserInfo?: boolean): Promise<BasicUserInfo> {
         const sessionData: SessionData = await this._dataLayer.getSessionData(userID);
         const authenticatedUser: AuthenticatedUserInfo = this._authenticationHelper
             .getAuthenticatedUserInfo(sessionData?.id_token);
@@ -442,6 +1489,10 @@ export class AuthenticationCore<T> {
 
         basicUserInfo = { ...basicUserInfo, ...authenticatedUser };
 
+        if (fetchUserInfo) {
+            basicUserInfo = { ...basicUserInfo, ...(await this.getUserInfo(userID)) };
+        }
+
         return basicUserInfo;
     }
 
@@ -521,11 +1572,14 @@ export class AuthenticationCore<T> {
 
         return {
             authorizationEndpoint: oidcProviderMetaData.authorization_endpoint ?? "",
+            backchannelAuthenticationEndpoint: oidcProviderMetaData.backchannel_authentication_endpoint ?? "",
             checkSessionIframe: oidcProviderMetaData.check_session_iframe ?? "",
+            deviceAuthorizationEndpoint: oidcProviderMetaData.device_authorization_endpoint ?? "",
             endSessionEndpoint: oidcProviderMetaData.end_session_endpoint ?? "",
             introspectionEndpoint: oidcProviderMetaData.introspection_endpoint ?? "",
             issuer: oidcProviderMetaData.issuer ?? "",
             jwksUri: oidcProviderMetaData.jwks_uri ?? "",
+            pushedAuthorizationRequestEndpoint: oidcProviderMetaData.pushed_authorization_request_endpoint ?? "",
             registrationEndpoint: oidcProviderMetaData.registration_endpoint ?? "",
             revocationEndpoint: oidcProviderMetaData.revocation_endpoint ?? "",
             tokenEndpoint: oidcProviderMetaData.token_endpoint ?? "",
@@ -533,7 +1587,7 @@ export class AuthenticationCore<T> {
         };
     }
 
-    public async getSignOutURL(userID?: string): Promise<string> {
+    public async getSignOutURL(userID?: string, config?: SignOutURLConfig): Promise<string> {
         const logoutEndpoint: string | undefined = (await this._oidcProviderMetaData())?.end_session_endpoint;
         const configData: StrictAuthClientConfig = await this._config();
 
@@ -546,7 +1600,9 @@ export class AuthenticationCore<T> {
             );
         }
 
-        const callbackURL: string = configData?.signOutRedirectURL ?? configData?.signInRedirectURL;
+        const callbackURL: string = config?.postLogoutRedirectURI
+            ?? configData?.signOutRedirectURL
+            ?? configData?.signInRedirectURL;
 
         if (!callbackURL || callbackURL.trim().length === 0) {
             throw new AsgardeoAuthException(
@@ -575,23 +1631,267 @@ export class AuthenticationCore<T> {
             queryParams.set("client_id", configData.clientID);
         }
 
-        queryParams.set("state", SIGN_OUT_SUCCESS_PARAM);
+        if (config?.logoutHint) {
+            queryParams.set("logout_hint", config.logoutHint);
+        }
+
+        if (config?.uiLocales && config.uiLocales.length > 0) {
+            queryParams.set("ui_locales", config.uiLocales.join(" "));
+        }
+
+        // The state is random so that a sign-out redirect cannot be forged. The prefix identifies sign-out redirects.
+        const state: string = `${ SIGN_OUT_SUCCESS_PARAM }_${ this._cryptoHelper.getNonce() }`;
+
+        await this._dataLayer.removeCustomData(SIGN_OUT_STATE, userID);
+        await this._dataLayer.setCustomData<SignOutState>(
+            SIGN_OUT_STATE, { appState: config?.state, state }, userID);
+
+        queryParams.set("state", state);
 
         return `${logoutEndpoint}?${queryParams.toString()}`;
     }
 
+    public async handleSignOutCallback(callback: string, userID?: string): Promise<SignOutCallbackResponse> {
+        const params: URLSearchParams = AuthenticationUtils.getAuthorizationResponseParams(callback);
+        const signOutState: SignOutState | null = await this._dataLayer.getCustomData<SignOutState>(
+            SIGN_OUT_STATE, userID);
+
+        if (!signOutState?.state || params.get(STATE) !== signOutState.state) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-HSOC-IV01",
+                "Invalid state.",
+                "The state of the sign-out callback does not match the state of the pending sign-out request."
+            );
+        }
+
+        await this._dataLayer.removeCustomData(SIGN_OUT_STATE, userID);
+
+        const error: string | null = params.get("error");
+
+        if (error) {
+            throw new AsgardeoAuthorizationException(
+                "JS-AUTH_CORE-HSOC-SE02",
+                error,
+                params.get("error_description") ?? undefined,
+                params.get("error_uri") ?? undefined
+            );
+        }
+
+        return { state: signOutState.appState };
+    }
+
     public async clearUserSessionData(userID?: string): Promise<void> {
         await this._authenticationHelper.clearUserSessionData(userID);
     }
 
-    public async getAccessToken(userID?: string): Promise<string> {
-        return (await this._dataLayer.getSessionData(userID))?.access_token;
+    public async getAccessToken(userID?: string, resource?: string): Promise<string> {
+        const sessionData: SessionData = await this._dataLayer.getSessionData(userID);
+
+        if (!resource) {
+            return sessionData?.access_token;
+        }
+
+        const resourceAccessToken: ResourceAccessToken | undefined = sessionData?.resource_access_tokens?.[ resource ];
+
+        if (resourceAccessToken && resourceAccessToken.created_at
+            + (parseInt(resourceAccessToken.expires_in) - TOKEN_EXPIRY_LEEWAY) * 1000 > Date.now()) {
+            return resourceAccessToken.access_token;
+        }
+
+        return this.requestResourceAccessToken(resource, userID);
+    }
+
+    public async requestResourceAccessToken(resource: string, userID?: string): Promise<string> {
+        const tokenEndpoint: string | undefined = (await this._oidcProviderMetaData()).token_endpoint;
+        const configData: StrictAuthClientConfig = await this._config();
+        const sessionData: SessionData = await this._dataLayer.getSessionData(userID);
+
+        if (!sessionData?.refresh_token) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RRAT-NF01",
+                "No refresh token found.",
+                "A refresh token is required to obtain an access token for a resource."
+            );
+        }
+
+        if (!tokenEndpoint || tokenEndpoint.trim().length === 0) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RRAT-NF02",
+                "Token endpoint not found.",
+                "No token endpoint was found in the OIDC provider meta data returned by the well-known endpoint " +
+                "or the token endpoint passed to the SDK is empty."
+            );
+        }
+
+        const clientAuthentication: ClientAuthentication =
+            await this._authenticationHelper.getClientAuthentication(tokenEndpoint);
+        const body: URLSearchParams = new URLSearchParams(clientAuthentication.params);
+
+        body.set("refresh_token", sessionData.refresh_token);
+        body.set("grant_type", "refresh_token");
+        body.set(RESOURCE, resource);
+
+        let response: Response;
+
+        try {
+            response = await this._authenticationHelper.fetchWithDPoP(tokenEndpoint, {
+                body: body,
+                credentials: configData.sendCookiesInRequests
+                    ? FetchCredentialTypes.Include
+                    : FetchCredentialTypes.SameOrigin,
+                headers: new Headers({
+                    ...AuthenticationUtils.getTokenRequestHeaders(),
+                    ...clientAuthentication.headers
+                }),
+                method: "POST"
+            }, userID);
+        } catch (error: any) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RRAT-NE03",
+                "Requesting access token for the resource failed.",
+                error ?? "The request to get the access token for the resource failed."
+            );
+        }
+
+        if (!response.ok) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RRAT-HE04",
+                `Requesting access token for the resource failed with ${ response.statusText }`,
+                await response.json()
+            );
+        }
+
+        const parsedResponse: RawTokenResponse = await response.json();
+
+        if (!parsedResponse.access_token) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-RRAT-IV05",
+                "Invalid token response.",
+                "The token response does not contain an access token."
+            );
+        }
+
+        // The refresh token is updated as the server may rotate it, but the main access token is left untouched.
+        await this._dataLayer.setSessionData({
+            refresh_token: parsedResponse.refresh_token ?? sessionData.refresh_token,
+            resource_access_tokens: {
+                ...sessionData.resource_access_tokens,
+                [ resource ]: {
+                    access_token: parsedResponse.access_token,
+                    created_at: new Date().getTime(),
+                    expires_in: parsedResponse.expires_in,
+                    scope: parsedResponse.scope,
+                    token_type: parsedResponse.token_type
+                }
+            }
+        }, userID);
+
+        return parsedResponse.access_token;
+    }
+
+    public async getAuthorizationDetails(userID?: string): Promise<AuthorizationDetail[]> {
+        return (await this._dataLayer.getSessionData(userID))?.authorization_details ?? [];
     }
 
-    public async isAuthenticated(userID?: string): Promise<boolean> {
+    public async isAuthenticated(userID?: string, validateWithServer?: boolean): Promise<boolean> {
         const isAuthenticated: boolean = Boolean(await this.getAccessToken(userID));
 
-        return isAuthenticated;
+        if (!isAuthenticated || !validateWithServer) {
+            return isAuthenticated;
+        }
+
+        return (await this.introspectToken(undefined, "access_token", userID)).active;
+    }
+
+    public async introspectToken(
+        token?: string,
+        tokenTypeHint?: string,
+        userID?: string
+    ): Promise<IntrospectionResponse> {
+        const introspectionEndpoint: string | undefined = (await this._oidcProviderMetaData()).introspection_endpoint;
+        const configData: StrictAuthClientConfig = await this._config();
+
+        if (!introspectionEndpoint || introspectionEndpoint.trim().length === 0) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-IT-NF01",
+                "No introspection endpoint found.",
+                "No introspection endpoint was found in the OIDC provider meta data returned by the well-known " +
+                "endpoint or the introspection endpoint passed to the SDK is empty."
+            );
+        }
+
+        const tokenToBeIntrospected: string = token ?? (await this.getAccessToken(userID));
+
+        if (!tokenToBeIntrospected) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-IT-NF02",
+                "No token found.",
+                "No token was passed to be introspected and no access token was found in the session."
+            );
+        }
+
+        const clientAuthentication: ClientAuthentication =
+            await this._authenticationHelper.getClientAuthentication(introspectionEndpoint);
+        const body: URLSearchParams = new URLSearchParams(clientAuthentication.params);
+
+        body.set("token", tokenToBeIntrospected);
+        tokenTypeHint && body.set("token_type_hint", tokenTypeHint);
+
+        let response: Response;
+
+        try {
+            response = await fetch(introspectionEndpoint, {
+                body: body,
+                credentials: configData.sendCookiesInRequests
+                    ? FetchCredentialTypes.Include
+                    : FetchCredentialTypes.SameOrigin,
+                headers: new Headers({
+                    ...AuthenticationUtils.getTokenRequestHeaders(),
+                    ...clientAuthentication.headers
+                }),
+                method: "POST"
+            });
+        } catch (error: any) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-IT-NE03",
+                "The introspection request failed.",
+                error ?? "The request sent to introspect the token failed."
+            );
+        }
+
+        if (!response.ok) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-IT-HE04",
+                `Invalid response status received for the introspection request (${response.statusText}).`,
+                await response.json()
+            );
+        }
+
+        const introspectionResponse: RawIntrospectionResponse = await response.json();
+
+        return {
+            active: introspectionResponse?.active === true,
+            clientId: introspectionResponse?.client_id,
+            exp: introspectionResponse?.exp,
+            scope: introspectionResponse?.scope,
+            sub: introspectionResponse?.sub,
+            tokenType: introspectionResponse?.token_type,
+            username: introspectionResponse?.username
+        };
+    }
+
+    public async getDPoPProof(httpMethod: string, url: string, nonce?: string, userID?: string): Promise<string> {
+        const sessionData: SessionData = await this._dataLayer.getSessionData(userID);
+
+        if (!sessionData?.access_token) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_CORE-GDP-NF01",
+                "Access token not found.",
+                "No access token could be found. Either the session information is lost or you have not signed in."
+            );
+        }
+
+        return this._authenticationHelper.createDPoPProof(httpMethod, url, userID, sessionData.access_token, nonce);
     }
 
     public async getPKCECode(state: string, userID?: string): Promise<string> {
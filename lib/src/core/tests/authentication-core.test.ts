@@ -0,0 +1,333 @@
+/**
+ * Copyright (c) 2026, WSO2 LLC. (https://www.wso2.com). All Rights Reserved.
+ *
+ * WSO2 LLC. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import { BACKCHANNEL_LOGOUT_EVENT, ResponseMode, ResponseType } from "../../constants";
+import { DataLayer } from "../../data";
+import { AuthClientConfig, AuthorizationURLParams, TokenResponse } from "../../models";
+import {
+    CLIENT_ID,
+    ENDPOINTS,
+    ISSUER,
+    TestCryptoUtils,
+    createDataLayer,
+    createJwt,
+    getTokenHash,
+    jsonResponse,
+    mockFetch,
+    now
+} from "../../tests/test-utils";
+import { AuthenticationCore } from "../authentication-core";
+
+/**
+ * Builds an authorization URL and completes the sign-in with an ID token containing the passed claims.
+ *
+ * @param core - The authentication core.
+ * @param getClaims - Returns the claims of the ID token for the nonce of the authorization request.
+ * @param config - (Optional) The authorization URL params.
+ * @param callbackParams - (Optional) Other params of the authorization response.
+ *
+ * @returns The token response.
+ */
+const signIn = async (
+    core: AuthenticationCore<unknown>,
+    getClaims: (nonce: string) => Record<string, unknown>,
+    config?: AuthorizationURLParams,
+    callbackParams?: Record<string, string>
+): Promise<TokenResponse> => {
+    const authorizationURL: URL = new URL(await core.getAuthorizationURL(config));
+
+    mockFetch({
+        [ ENDPOINTS.token_endpoint as string ]: () => jsonResponse({
+            access_token: "access-token",
+            expires_in: "3600",
+            id_token: createJwt({
+                aud: CLIENT_ID,
+                exp: now() + 3600,
+                iat: now(),
+                iss: ISSUER,
+                sub: "user",
+                ...getClaims(authorizationURL.searchParams.get("nonce") as string)
+            }),
+            token_type: "Bearer"
+        })
+    });
+
+    return core.handleAuthorizationCallback({
+        code: "authorization-code",
+        state: authorizationURL.searchParams.get("state") as string,
+        ...callbackParams
+    });
+};
+
+describe("AuthenticationCore", () => {
+    let dataLayer: DataLayer<unknown>;
+    let core: AuthenticationCore<unknown>;
+
+    beforeEach(async () => {
+        dataLayer = await createDataLayer();
+        core = new AuthenticationCore(dataLayer, new TestCryptoUtils());
+    });
+
+    describe("nonce", () => {
+        it("sends a random nonce with every authorization request", async () => {
+            const firstURL: URL = new URL(await core.getAuthorizationURL());
+            const secondURL: URL = new URL(await core.getAuthorizationURL());
+
+            expect(firstURL.searchParams.get("nonce")).toBeTruthy();
+            expect(firstURL.searchParams.get("nonce")).not.toBe(secondURL.searchParams.get("nonce"));
+        });
+
+        it("accepts an ID token with the nonce of the authorization request", async () => {
+            const response: TokenResponse = await signIn(core, (nonce: string) => ({ nonce }));
+
+            expect(response.accessToken).toBe("access-token");
+            expect((await dataLayer.getSessionData()).access_token).toBe("access-token");
+        });
+
+        it("rejects an ID token with a different nonce", async () => {
+            await expect(signIn(core, () => ({ nonce: "forged-nonce" })))
+                .rejects.toMatchObject({ code: "JS-AUTH_HELPER-HTR-IV02" });
+            expect((await dataLayer.getSessionData())?.access_token).toBeUndefined();
+        });
+
+        it("rejects an ID token without a nonce", async () => {
+            await expect(signIn(core, () => ({})))
+                .rejects.toMatchObject({ code: "JS-AUTH_HELPER-HTR-IV02" });
+        });
+
+        it("rejects an authorization response without a stored nonce before requesting the tokens", async () => {
+            await core.getAuthorizationURL();
+            mockFetch({});
+
+            await expect(core.requestAccessToken("authorization-code", "", "request_99"))
+                .rejects.toMatchObject({ code: "JS-AUTH_CORE-RAT1-NF04" });
+            expect(global.fetch).not.toHaveBeenCalledWith(ENDPOINTS.token_endpoint, expect.anything());
+        });
+    });
+
+    describe("pushed authorization requests", () => {
+        const PAR_ENDPOINT: string = "https://localhost:9443/oauth2/par";
+
+        beforeEach(async () => {
+            await dataLayer.setOIDCProviderMetaData({ pushed_authorization_request_endpoint: PAR_ENDPOINT });
+            mockFetch({
+                [ PAR_ENDPOINT ]: () => jsonResponse({ expires_in: 60, request_uri: "urn:request-uri" }, 201)
+            });
+        });
+
+        it("returns the expiry of the pushed authorization request", async () => {
+            await dataLayer.setConfigData({ enablePAR: true });
+
+            const requestedAt: number = Date.now();
+            const authorizationURL: URL = new URL(await core.getAuthorizationURL());
+
+            expect(authorizationURL.searchParams.get("request_uri")).toBe("urn:request-uri");
+            expect(await core.getAuthorizationURLExpiry()).toBeGreaterThanOrEqual(requestedAt + 60 * 1000);
+            expect(await core.getAuthorizationURLExpiry()).toBeLessThanOrEqual(Date.now() + 60 * 1000);
+        });
+
+        it("doesn't return an expiry for an authorization URL that doesn't expire", async () => {
+            await dataLayer.setConfigData({ enablePAR: true });
+            await core.getAuthorizationURL();
+            await dataLayer.setConfigData({ enablePAR: false });
+            await core.getAuthorizationURL();
+
+            await expect(core.getAuthorizationURLExpiry()).resolves.toBeUndefined();
+        });
+    });
+
+    describe("JWT secured authorization responses", () => {
+        it("processes the parameters carried in the response JWT", async () => {
+            await dataLayer.setConfigData({ responseMode: ResponseMode.jwt });
+
+            const authorizationURL: URL = new URL(await core.getAuthorizationURL());
+            const nonce: string = authorizationURL.searchParams.get("nonce") as string;
+
+            mockFetch({
+                [ ENDPOINTS.token_endpoint as string ]: () => jsonResponse({
+                    access_token: "access-token",
+                    id_token: createJwt({ aud: CLIENT_ID, exp: now() + 3600, iat: now(), iss: ISSUER, nonce }),
+                    token_type: "Bearer"
+                })
+            });
+
+            await expect(core.handleAuthorizationCallback({
+                response: createJwt({
+                    aud: CLIENT_ID,
+                    code: "authorization-code",
+                    exp: now() + 60,
+                    iss: ISSUER,
+                    state: authorizationURL.searchParams.get("state") as string
+                })
+            })).resolves.toMatchObject({ accessToken: "access-token" });
+        });
+
+        it("rejects a plain authorization response when a JWT response mode is configured", async () => {
+            await dataLayer.setConfigData({ responseMode: ResponseMode.queryJwt });
+
+            await expect(signIn(core, (nonce: string) => ({ nonce })))
+                .rejects.toMatchObject({ code: "JS-AUTH_CORE-HAC-NF06" });
+        });
+    });
+
+    describe("authorization response issuer", () => {
+        it("accepts an authorization response with the issuer of the authorization server", async () => {
+            await expect(signIn(core, (nonce: string) => ({ nonce }), undefined, { iss: ISSUER }))
+                .resolves.toMatchObject({ accessToken: "access-token" });
+        });
+
+        it("rejects an authorization response with a different issuer", async () => {
+            await expect(signIn(core, (nonce: string) => ({ nonce }), undefined, { iss: "https://attacker.com" }))
+                .rejects.toMatchObject({ code: "JS-AUTH_CORE-HAC-IV02" });
+            // The authorization code must not be sent to the token endpoint.
+            expect(global.fetch).not.toHaveBeenCalled();
+        });
+
+        it("rejects an authorization response without an issuer if the server advertises it", async () => {
+            await dataLayer.setOIDCProviderMetaData({ authorization_response_iss_parameter_supported: true });
+
+            await expect(signIn(core, (nonce: string) => ({ nonce })))
+                .rejects.toMatchObject({ code: "JS-AUTH_CORE-HAC-IV02" });
+        });
+
+        it("accepts an authorization response without an issuer if the server doesn't advertise it", async () => {
+            await expect(signIn(core, (nonce: string) => ({ nonce })))
+                .resolves.toMatchObject({ accessToken: "access-token" });
+        });
+    });
+
+    describe("hybrid flow", () => {
+        const signInWithFragment = async (config: Partial<AuthClientConfig>): Promise<TokenResponse> => {
+            await dataLayer.setConfigData({
+                responseType: ResponseType.codeIdToken,
+                signInRedirectURL: "https://localhost:3000/callback?tenant=a",
+                ...config
+            });
+
+            const authorizationURL: URL = new URL(await core.getAuthorizationURL());
+            const claims: Record<string, unknown> = {
+                aud: CLIENT_ID,
+                exp: now() + 3600,
+                iat: now(),
+                iss: ISSUER,
+                nonce: authorizationURL.searchParams.get("nonce"),
+                sub: "user"
+            };
+            const fragment: URLSearchParams = new URLSearchParams({
+                code: "authorization-code",
+                id_token: createJwt({ ...claims, c_hash: getTokenHash("authorization-code") }),
+                state: authorizationURL.searchParams.get("state") as string
+            });
+
+            expect(authorizationURL.searchParams.get("response_mode")).toBe(
+                config.responseMode ? ResponseMode.fragment : null);
+
+            mockFetch({
+                [ ENDPOINTS.token_endpoint as string ]: () => jsonResponse({
+                    access_token: "access-token",
+                    id_token: createJwt(claims),
+                    token_type: "Bearer"
+                })
+            });
+
+            return core.handleAuthorizationCallback(`https://localhost:3000/callback?tenant=a#${ fragment }`);
+        };
+
+        it("processes a response returned in the fragment of a redirect URL with a query string", async () => {
+            await expect(signInWithFragment({ responseMode: ResponseMode.query }))
+                .resolves.toMatchObject({ accessToken: "access-token" });
+        });
+
+        it("processes a response returned in the default fragment response mode", async () => {
+            await expect(signInWithFragment({ responseMode: undefined }))
+                .resolves.toMatchObject({ accessToken: "access-token" });
+        });
+    });
+
+    describe("authentication requirements", () => {
+        it("sends and enforces the ACR values passed using the snake-cased key", async () => {
+            const authorizationURL: URL = new URL(await core.getAuthorizationURL({ acr_values: "silver gold" }));
+
+            expect(authorizationURL.searchParams.get("acr_values")).toBe("silver gold");
+            await expect(signIn(core, (nonce: string) => ({ acr: "bronze", nonce }), { acr_values: "silver gold" }))
+                .rejects.toMatchObject({ code: "JS-AUTH_HELPER-VAR-IV02" });
+        });
+
+        it("accepts an ID token with one of the requested ACR values", async () => {
+            await expect(signIn(core, (nonce: string) => ({ acr: "gold", nonce }), { acrValues: [ "silver", "gold" ] }))
+                .resolves.toMatchObject({ accessToken: "access-token" });
+        });
+
+        it("enforces the max age passed using the snake-cased key", async () => {
+            await expect(signIn(core, (nonce: string) => ({ auth_time: now() - 10, nonce }), { max_age: 0 }))
+                .rejects.toMatchObject({ code: "JS-AUTH_HELPER-VAR-IV01" });
+        });
+    });
+
+    describe("signOut", () => {
+        beforeEach(async () => {
+            await signIn(core, (nonce: string) => ({ nonce }));
+        });
+
+        it("revokes the access token and clears the session", async () => {
+            mockFetch({ [ ENDPOINTS.revocation_endpoint as string ]: () => new Response(null, { status: 200 }) });
+
+            await expect(core.signOut()).resolves.toContain(ENDPOINTS.end_session_endpoint as string);
+            expect(global.fetch).toHaveBeenCalledWith(ENDPOINTS.revocation_endpoint, expect.anything());
+            await expect(dataLayer.getSessionData()).resolves.toBeNull();
+        });
+
+        it("clears the session even if the access token could not be revoked", async () => {
+            mockFetch({ [ ENDPOINTS.revocation_endpoint as string ]: () => new Response("error", { status: 500 }) });
+
+            await expect(core.signOut()).rejects.toMatchObject({ code: "JS-AUTH_HELPER-RT-HE03" });
+            await expect(dataLayer.getSessionData()).resolves.toBeNull();
+        });
+    });
+
+    describe("back-channel logout", () => {
+        const createLogoutToken = (claims: Record<string, unknown>): string => createJwt({
+            aud: CLIENT_ID,
+            events: { [ BACKCHANNEL_LOGOUT_EVENT ]: {} },
+            iat: now(),
+            iss: ISSUER,
+            jti: "logout-token",
+            ...claims
+        });
+
+        beforeEach(async () => {
+            await signIn(core, (nonce: string) => ({ nonce, sid: "session" }));
+        });
+
+        it("clears the session identified by the session ID", async () => {
+            await expect(core.handleBackchannelLogout(createLogoutToken({ sid: "session" }))).resolves.toEqual([ "" ]);
+            await expect(dataLayer.getSessionData()).resolves.toBeNull();
+        });
+
+        it("clears the sessions of the subject", async () => {
+            await expect(core.handleBackchannelLogout(createLogoutToken({ sub: "user" }))).resolves.toEqual([ "" ]);
+            await expect(dataLayer.getSessionData()).resolves.toBeNull();
+        });
+
+        it("keeps the sessions that are not referenced by the logout token", async () => {
+            await expect(core.handleBackchannelLogout(createLogoutToken({ sid: "other-session" })))
+                .resolves.toEqual([]);
+            expect((await dataLayer.getSessionData()).access_token).toBe("access-token");
+        });
+    });
+});
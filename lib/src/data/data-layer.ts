@@ -96,19 +96,19 @@ export class DataLayer<T> {
     }
 
     public async setOIDCProviderMetaData(oidcProviderMetaData: Partial<OIDCProviderMetaData>): Promise<void> {
-        this.setDataInBulk(this._resolveKey(Stores.OIDCProviderMetaData), oidcProviderMetaData);
+        await this.setDataInBulk(this._resolveKey(Stores.OIDCProviderMetaData), oidcProviderMetaData);
     }
 
     public async setTemporaryData(temporaryData: Partial<TemporaryData>, userID?: string): Promise<void> {
-        this.setDataInBulk(this._resolveKey(Stores.TemporaryData, userID), temporaryData);
+        await this.setDataInBulk(this._resolveKey(Stores.TemporaryData, userID), temporaryData);
     }
 
     public async setSessionData(sessionData: Partial<SessionData>, userID?: string): Promise<void> {
-        this.setDataInBulk(this._resolveKey(Stores.SessionData, userID), sessionData);
+        await this.setDataInBulk(this._resolveKey(Stores.SessionData, userID), sessionData);
     }
 
     public async setCustomData<K>(key: string, customData: Partial<K>, userID?: string): Promise<void> {
-        this.setDataInBulk(this._resolveKey(key, userID), customData);
+        await this.setDataInBulk(this._resolveKey(key, userID), customData);
     }
 
     public async getConfigData(): Promise<AuthClientConfig<T>> {
@@ -162,6 +162,10 @@ export class DataLayer<T> {
         await this._store.removeData(this._resolveKey(Stores.SessionData, userID));
     }
 
+    public async removeCustomData(key: string, userID?: string): Promise<void> {
+        await this._store.removeData(this._resolveKey(key, userID));
+    }
+
     public async getConfigDataParameter(key: keyof AuthClientConfig<T>): Promise<StoreValue> {
         const data: string = await this._store.getData(this._resolveKey(Stores.ConfigData));
 
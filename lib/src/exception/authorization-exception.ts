@@ -0,0 +1,40 @@
+/**
+ * Copyright (c) 2026, WSO2 LLC. (https://www.wso2.com). All Rights Reserved.
+ *
+ * WSO2 LLC. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import { AsgardeoAuthException } from "./exception";
+
+/**
+ * The exception thrown when the authorization server returns an error response to the authorization request.
+ */
+export class AsgardeoAuthorizationException extends AsgardeoAuthException {
+    public error: string;
+    public errorDescription: string | undefined;
+    public errorUri: string | undefined;
+
+    public constructor(
+        code: string,
+        error: string,
+        errorDescription?: string,
+        errorUri?: string
+    ) {
+        super(code, error, errorDescription ?? "The authorization server returned an error response.");
+        this.error = error;
+        this.errorDescription = errorDescription;
+        this.errorUri = errorUri;
+    }
+}
@@ -17,3 +17,4 @@
  */
 
 export * from "./exception";
+export * from "./authorization-exception";
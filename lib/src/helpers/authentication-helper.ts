@@ -19,21 +19,41 @@
 import { CryptoHelper } from "./crypto-helper";
 import {
     AUTHORIZATION_ENDPOINT,
+    BACKCHANNEL_AUTHENTICATION_ENDPOINT,
+    BACKCHANNEL_LOGOUT_EVENT,
+    CLIENT_ASSERTION_LIFETIME,
+    CLIENT_ASSERTION_TYPE_JWT_BEARER,
     CLIENT_ID_TAG,
     CLIENT_SECRET_TAG,
+    DEFAULT_CLIENT_SECRET_JWT_SIGNING_ALGORITHM,
+    DEFAULT_DPOP_SIGNING_ALGORITHM,
+    DEFAULT_PRIVATE_KEY_JWT_SIGNING_ALGORITHM,
+    DEFAULT_REQUEST_OBJECT_SIGNING_ALGORITHM,
+    DEVICE_AUTHORIZATION_ENDPOINT,
+    DPOP_HEADER,
+    DPOP_NONCE_HEADER,
     END_SESSION_ENDPOINT,
     FetchCredentialTypes,
     ISSUER,
     JWKS_ENDPOINT,
+    LOGOUT_TOKEN_IDS,
+    LOGOUT_TOKEN_MAX_AGE,
+    OIDC_NONCE,
     OIDC_SCOPE,
     OIDC_SESSION_IFRAME_ENDPOINT,
     PKCE_CODE_VERIFIER,
     PKCE_SEPARATOR,
+    PUSHED_AUTHORIZATION_REQUEST_ENDPOINT,
+    REQUEST_OBJECT_LIFETIME,
     REVOKE_TOKEN_ENDPOINT,
     SCOPE_TAG,
     SERVICE_RESOURCES,
+    SESSION_INDEX,
+    SLOW_DOWN_POLLING_INTERVAL_INCREMENT,
     TOKEN_ENDPOINT,
     TOKEN_TAG,
+    TokenEndpointAuthMethod,
+    TokenTypeHint,
     USERINFO_ENDPOINT,
     USERNAME_TAG
 } from "../constants";
@@ -42,12 +62,22 @@ import { AsgardeoAuthException } from "../exception";
 import {
     AuthClientConfig,
     AuthenticatedUserInfo,
+    AuthenticationRequirements,
+    ClientAuthentication,
+    ClientMetadata,
+    ClientRegistrationResponse,
+    CryptoUtils,
     DecodedIDTokenPayload,
+    DecodedLogoutTokenPayload,
+    FetchRequestConfig,
     JWKInterface,
+    JWTPayload,
+    KeyPair,
     OIDCEndpointsInternal,
     OIDCProviderMetaData,
     RawTokenResponse,
     SessionData,
+    SessionIndex,
     StrictAuthClientConfig,
     TemporaryData,
     TokenResponse
@@ -162,10 +192,15 @@ export class AuthenticationHelper<T> {
 
         const defaultEndpoints: OIDCProviderMetaData = {
             [ AUTHORIZATION_ENDPOINT ]: `${baseUrl}${SERVICE_RESOURCES.authorizationEndpoint}`,
+            [ BACKCHANNEL_AUTHENTICATION_ENDPOINT ]:
+                `${baseUrl}${SERVICE_RESOURCES.backchannelAuthenticationEndpoint}`,
+            [ DEVICE_AUTHORIZATION_ENDPOINT ]: `${baseUrl}${SERVICE_RESOURCES.deviceAuthorizationEndpoint}`,
             [ END_SESSION_ENDPOINT ]: `${baseUrl}${SERVICE_RESOURCES.endSessionEndpoint}`,
             [ ISSUER ]: `${baseUrl}${SERVICE_RESOURCES.issuer}`,
             [ JWKS_ENDPOINT ]: `${baseUrl}${SERVICE_RESOURCES.jwksUri}`,
             [ OIDC_SESSION_IFRAME_ENDPOINT ]: `${baseUrl}${SERVICE_RESOURCES.checkSessionIframe}`,
+            [ PUSHED_AUTHORIZATION_REQUEST_ENDPOINT ]:
+                `${baseUrl}${SERVICE_RESOURCES.pushedAuthorizationRequestEndpoint}`,
             [ REVOKE_TOKEN_ENDPOINT ]: `${baseUrl}${SERVICE_RESOURCES.revocationEndpoint}`,
             [ TOKEN_ENDPOINT ]: `${baseUrl}${SERVICE_RESOURCES.tokenEndpoint}`,
             [ USERINFO_ENDPOINT ]: `${baseUrl}${SERVICE_RESOURCES.userinfoEndpoint}`
@@ -174,13 +209,18 @@ export class AuthenticationHelper<T> {
         return { ...defaultEndpoints, ...oidcProviderMetaData };
     }
 
-    public async validateIdToken(idToken: string): Promise<boolean> {
+    /**
+     * This fetches the JSON Web Key Set of the authorization server from the JWKS endpoint.
+     *
+     * @returns The keys in the key set.
+     */
+    public async getJWKS(): Promise<JWKInterface[]> {
         const jwksEndpoint: string | undefined = (await this._dataLayer.getOIDCProviderMetaData()).jwks_uri;
         const configData: StrictAuthClientConfig = await this._config();
 
         if (!jwksEndpoint || jwksEndpoint.trim().length === 0) {
             throw new AsgardeoAuthException(
-                "JS_AUTH_HELPER-VIT-NF01",
+                "JS-AUTH_HELPER-GJWKS-NF01",
                 "JWKS endpoint not found.",
                 "No JWKS endpoint was found in the OIDC provider meta data returned by the well-known endpoint " +
                 "or the JWKS endpoint passed to the SDK is empty."
@@ -197,7 +237,7 @@ export class AuthenticationHelper<T> {
             });
         } catch (error: any) {
             throw new AsgardeoAuthException(
-                "JS-AUTH_HELPER-VIT-NE02",
+                "JS-AUTH_HELPER-GJWKS-NE02",
                 "Request to jwks endpoint failed.",
                 error ?? "The request sent to get the jwks from the server failed."
             );
@@ -205,28 +245,346 @@ export class AuthenticationHelper<T> {
 
         if (response.status !== 200 || !response.ok) {
             throw new AsgardeoAuthException(
-                "JS-AUTH_HELPER-VIT-HE03",
+                "JS-AUTH_HELPER-GJWKS-HE03",
                 `Invalid response status received for jwks request (${ response.statusText }).`,
                 await response.json()
             );
         }
 
-        const issuer: string | undefined = (await this._oidcProviderMetaData()).issuer;
-
         const { keys }: { keys: JWKInterface[]; } = await response.json();
 
-        const jwk: any = await this._cryptoHelper.getJWKForTheIdToken(idToken.split(".")[ 0 ], keys);
+        return keys;
+    }
+
+    public async validateIdToken(idToken: string): Promise<boolean> {
+        const signedIdToken: string = await this.decryptIdToken(idToken);
+        const issuer: string | undefined = (await this._oidcProviderMetaData()).issuer;
+        const keys: JWKInterface[] = await this.getJWKS();
+
+        const jwk: any = await this._cryptoHelper.getJWKForTheIdToken(signedIdToken.split(".")[ 0 ], keys);
 
         return this._cryptoHelper.isValidIdToken(
-            idToken,
+            signedIdToken,
             jwk,
             (await this._config()).clientID,
             issuer ?? "",
-            this._cryptoHelper.decodeIDToken(idToken).sub,
+            this._cryptoHelper.decodeIDToken(signedIdToken).sub,
             (await this._config()).clockTolerance
         );
     }
 
+    /**
+     * This decrypts an encrypted ID token and returns the signed ID token nested in it. A signed ID token is
+     * returned as it is.
+     *
+     * @param idToken - The ID token.
+     *
+     * @returns The signed ID token.
+     */
+    public async decryptIdToken(idToken: string): Promise<string> {
+        if (!this._cryptoHelper.isJwe(idToken)) {
+            return idToken;
+        }
+
+        const signedIdToken: string = await this._cryptoHelper.decryptJwe(
+            idToken, (await this._config()).idTokenDecryptionKeyID);
+
+        if (signedIdToken.split(".").length !== 3) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-DIT-IV01",
+                "Invalid encrypted ID token.",
+                "The encrypted ID token does not contain a signed ID token."
+            );
+        }
+
+        return signedIdToken;
+    }
+
+    /**
+     * This validates the signature and the claims of a signed UserInfo response.
+     *
+     * @param userInfoToken - The signed UserInfo response.
+     * @param subject - The expected subject of the UserInfo response.
+     *
+     * @returns True if the UserInfo response is valid.
+     */
+    public async validateUserInfoToken(userInfoToken: string, subject: string): Promise<boolean> {
+        const issuer: string | undefined = (await this._oidcProviderMetaData()).issuer;
+        const keys: JWKInterface[] = await this.getJWKS();
+
+        const jwk: JWKInterface = this._cryptoHelper.getJWKForTheIdToken(userInfoToken.split(".")[ 0 ], keys);
+
+        return this._cryptoHelper.isValidUserInfoToken(
+            userInfoToken,
+            jwk,
+            (await this._config()).clientID,
+            issuer ?? "",
+            subject,
+            (await this._config()).clockTolerance
+        );
+    }
+
+    /**
+     * This decrypts, if required, and validates a JWT secured authorization response.
+     *
+     * @param responseToken - The value of the `response` parameter of the authorization response.
+     *
+     * @returns The parameters of the authorization response carried in the JWT.
+     */
+    public async validateAuthorizationResponseToken(responseToken: string): Promise<Record<string, string>> {
+        const jwt: string = this._cryptoHelper.isJwe(responseToken)
+            ? await this._cryptoHelper.decryptJwe(responseToken)
+            : responseToken;
+        const issuer: string | undefined = (await this._oidcProviderMetaData()).issuer;
+        const configData: StrictAuthClientConfig = await this._config();
+        const keys: JWKInterface[] = await this.getJWKS();
+
+        const jwk: JWKInterface = this._cryptoHelper.getJWKForTheIdToken(jwt.split(".")[ 0 ], keys);
+
+        await this._cryptoHelper.isValidAuthorizationResponseToken(
+            jwt,
+            jwk,
+            configData.clientID,
+            issuer ?? "",
+            configData.clockTolerance
+        );
+
+        const payload: JWTPayload = this._cryptoHelper.decodeJwtPayload(jwt);
+
+        // The claims are checked here as well so that the guarantees do not depend on the `CryptoUtils` implementation.
+        if (!issuer || payload.iss !== issuer) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-VART-IV01",
+                "Invalid issuer.",
+                "The issuer of the authorization response does not match the issuer of the authorization server."
+            );
+        }
+
+        if (!(Array.isArray(payload.aud) ? payload.aud.includes(configData.clientID)
+            : payload.aud === configData.clientID)) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-VART-IV02",
+                "Invalid audience.",
+                "The audience of the authorization response does not contain the client ID."
+            );
+        }
+
+        if (typeof payload.exp !== "number"
+            || (payload.exp + (configData.clockTolerance ?? 0)) * 1000 <= Date.now()) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-VART-IV03",
+                "Expired authorization response.",
+                "The authorization response is either missing the expiry time or has expired."
+            );
+        }
+
+        const params: Record<string, string> = {};
+
+        Object.keys(payload).forEach((key: string) => {
+            if (typeof payload[ key ] === "string") {
+                params[ key ] = payload[ key ];
+            }
+        });
+
+        return params;
+    }
+
+    /**
+     * This validates the signature and the claims of a back-channel logout token.
+     *
+     * @param logoutToken - The logout token sent by the OP.
+     *
+     * @returns The decoded payload of the logout token.
+     */
+    public async validateLogoutToken(logoutToken: string): Promise<DecodedLogoutTokenPayload> {
+        const issuer: string | undefined = (await this._oidcProviderMetaData()).issuer;
+        const configData: StrictAuthClientConfig = await this._config();
+        const keys: JWKInterface[] = await this.getJWKS();
+
+        const jwk: JWKInterface = this._cryptoHelper.getJWKForTheIdToken(logoutToken.split(".")[ 0 ], keys);
+
+        await this._cryptoHelper.isValidLogoutToken(
+            logoutToken,
+            jwk,
+            configData.clientID,
+            issuer ?? "",
+            configData.clockTolerance
+        );
+
+        const payload: DecodedLogoutTokenPayload = this._cryptoHelper.decodeJwtPayload(
+            logoutToken) as DecodedLogoutTokenPayload;
+        const clockTolerance: number = configData.clockTolerance ?? 0;
+        const now: number = Math.floor(Date.now() / 1000);
+
+        if (!issuer || payload.iss !== issuer) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-VLT-IV01",
+                "Invalid issuer.",
+                "The issuer of the logout token does not match the issuer of the authorization server."
+            );
+        }
+
+        if (!(Array.isArray(payload.aud) ? payload.aud.includes(configData.clientID)
+            : payload.aud === configData.clientID)) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-VLT-IV02",
+                "Invalid audience.",
+                "The audience of the logout token does not contain the client ID."
+            );
+        }
+
+        if (typeof payload.iat !== "number" || payload.iat > now + clockTolerance
+            || payload.iat < now - LOGOUT_TOKEN_MAX_AGE - clockTolerance) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-VLT-IV03",
+                "Invalid issued at time.",
+                "The logout token is either missing the issued at time, issued in the future or too old."
+            );
+        }
+
+        if (!payload.jti) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-VLT-IV04",
+                "Token ID not found.",
+                "The logout token does not contain the `jti` claim."
+            );
+        }
+
+        const logoutTokenIDs: Record<string, number> = {};
+
+        // Only the IDs of the tokens that are still within the accepted age are kept to detect replays.
+        Object.entries((await this._dataLayer.getCustomData<Record<string, Record<string, number>>>(
+            LOGOUT_TOKEN_IDS))?.ids ?? {}).forEach(([ jti, expiresAt ]: [ string, number ]) => {
+            if (expiresAt > now) {
+                logoutTokenIDs[ jti ] = expiresAt;
+            }
+        });
+
+        if (payload.jti in logoutTokenIDs) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-VLT-IV05",
+                "Replayed logout token.",
+                "A logout token with the same `jti` has already been processed."
+            );
+        }
+
+        if (typeof payload.events?.[ BACKCHANNEL_LOGOUT_EVENT ] !== "object") {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-VLT-IV06",
+                "Invalid events.",
+                "The `events` claim of the logout token does not contain the back-channel logout event."
+            );
+        }
+
+        if ("nonce" in payload) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-VLT-IV07",
+                "Nonce not allowed.",
+                "The logout token must not contain the `nonce` claim."
+            );
+        }
+
+        if (!payload.sid && !payload.sub) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-VLT-IV08",
+                "Subject not found.",
+                "The logout token contains neither the `sid` claim nor the `sub` claim."
+            );
+        }
+
+        logoutTokenIDs[ payload.jti ] = payload.iat + LOGOUT_TOKEN_MAX_AGE + clockTolerance;
+        await this._dataLayer.setCustomData<Record<string, Record<string, number>>>(
+            LOGOUT_TOKEN_IDS, { ids: logoutTokenIDs });
+
+        return payload;
+    }
+
+    /**
+     * This returns the user IDs of the stored sessions indexed by the `sid` and the `sub` claims of their ID tokens.
+     *
+     * @returns The session index.
+     */
+    public async getSessionIndex(): Promise<SessionIndex> {
+        return (await this._dataLayer.getCustomData<SessionIndex>(SESSION_INDEX)) ?? { sid: {}, sub: {} };
+    }
+
+    /**
+     * This updates the entries of a session in the session index.
+     *
+     * @param idToken - The ID token of the session. If not provided, the session is removed from the index.
+     * @param userID - The userID to identify a user in a multi-user scenario.
+     */
+    public async updateSessionIndex(idToken: string | undefined, userID?: string): Promise<void> {
+        const sessionIndex: SessionIndex = await this.getSessionIndex();
+        const indexedUserID: string = userID ?? "";
+        const payload: DecodedIDTokenPayload | undefined = idToken
+            ? this._cryptoHelper.decodeIDToken(idToken)
+            : undefined;
+
+        ([ "sid", "sub" ] as (keyof SessionIndex)[]).forEach((claim: keyof SessionIndex) => {
+            Object.keys(sessionIndex[ claim ]).forEach((value: string) => {
+                sessionIndex[ claim ][ value ] = sessionIndex[ claim ][ value ]
+                    .filter((existingUserID: string) => existingUserID !== indexedUserID);
+
+                if (sessionIndex[ claim ][ value ].length === 0) {
+                    delete sessionIndex[ claim ][ value ];
+                }
+            });
+
+            if (payload?.[ claim ]) {
+                sessionIndex[ claim ][ payload[ claim ] ] = [
+                    ...(sessionIndex[ claim ][ payload[ claim ] ] ?? []),
+                    indexedUserID
+                ];
+            }
+        });
+
+        await this._dataLayer.setCustomData<SessionIndex>(SESSION_INDEX, sessionIndex);
+    }
+
+    /**
+     * This validates an ID token returned in the authorization response of a hybrid flow.
+     *
+     * @param idToken - The ID token returned in the authorization response.
+     * @param authorizationCode - The authorization code returned along with the ID token.
+     * @param nonce - The nonce sent in the authorization request.
+     *
+     * @returns True if the ID token is valid.
+     */
+    public async validateFrontChannelIdToken(
+        idToken: string,
+        authorizationCode: string,
+        nonce: string
+    ): Promise<boolean> {
+        const signedIdToken: string = await this.decryptIdToken(idToken);
+        const payload: DecodedIDTokenPayload = this._cryptoHelper.decodeIDToken(signedIdToken);
+
+        if (!nonce || payload.nonce !== nonce) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-VFCIT-IV01",
+                "Invalid nonce.",
+                "The nonce in the id_token is either missing or does not match the nonce sent " +
+                "in the authorization request."
+            );
+        }
+
+        // The c_hash binds the authorization code to the ID token and is mandatory in the hybrid flow.
+        if (!payload.c_hash || payload.c_hash !== this._cryptoHelper.getTokenHash(
+            authorizationCode, this._cryptoHelper.decodeJwtHeader(signedIdToken).alg)) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-VFCIT-IV02",
+                "Invalid code hash.",
+                "The c_hash in the id_token is either missing or does not match the hash of the authorization code."
+            );
+        }
+
+        if ((await this._config()).validateIDToken) {
+            return this.validateIdToken(signedIdToken);
+        }
+
+        return true;
+    }
+
     public getAuthenticatedUserInfo(idToken: string): AuthenticatedUserInfo {
         const payload: DecodedIDTokenPayload = this._cryptoHelper.decodeIDToken(idToken);
         const tenantDomain: string = AuthenticationUtils.getTenantDomainFromIdTokenPayload(payload);
@@ -244,6 +602,9 @@ export class AuthenticationHelper<T> {
         const displayName: string = payload.preferred_username ?? fullName;
 
         return {
+            acr: payload.acr,
+            amr: payload.amr,
+            authTime: payload.auth_time,
             displayName: displayName,
             tenantDomain,
             username: username,
@@ -271,12 +632,172 @@ export class AuthenticationHelper<T> {
             .replace(CLIENT_SECRET_TAG, configData.clientSecret ?? "");
     }
 
+    /**
+     * This sends a token to the revocation endpoint to be revoked.
+     *
+     * @param token - The token to be revoked.
+     * @param tokenTypeHint - The type of the token.
+     * @param userID - The userID to identify a user in a multi-user scenario.
+     *
+     * @returns The response of the revocation request.
+     */
+    public async revokeToken(token: string, tokenTypeHint: TokenTypeHint, userID?: string): Promise<Response> {
+        const revokeTokenEndpoint: string | undefined = (await this._oidcProviderMetaData()).revocation_endpoint;
+        const configData: StrictAuthClientConfig = await this._config();
+
+        if (!revokeTokenEndpoint || revokeTokenEndpoint.trim().length === 0) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-RT-NF01",
+                "No revoke token endpoint found.",
+                "No revoke token endpoint was found in the OIDC provider meta data returned by " +
+                "the well-known endpoint or the revoke token endpoint passed to the SDK is empty."
+            );
+        }
+
+        const clientAuthentication: ClientAuthentication = await this.getClientAuthentication(revokeTokenEndpoint);
+        const body: URLSearchParams = new URLSearchParams(clientAuthentication.params);
+
+        body.set("token", token);
+        body.set("token_type_hint", tokenTypeHint);
+
+        let response: Response;
+
+        try {
+            response = await this.fetchWithDPoP(revokeTokenEndpoint, {
+                body: body,
+                credentials: configData.sendCookiesInRequests
+                    ? FetchCredentialTypes.Include
+                    : FetchCredentialTypes.SameOrigin,
+                headers: new Headers({
+                    ...AuthenticationUtils.getTokenRequestHeaders(),
+                    ...clientAuthentication.headers
+                }),
+                method: "POST"
+            }, userID);
+        } catch (error: any) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-RT-NE02",
+                "The request to revoke the token failed.",
+                error ?? "The request sent to revoke the token failed."
+            );
+        }
+
+        if (response.status !== 200 || !response.ok) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-RT-HE03",
+                `Invalid response status received for revoke token request (${ response.statusText }).`,
+                await response.text()
+            );
+        }
+
+        return response;
+    }
+
+    /**
+     * This sends a request to the client registration endpoint or the client configuration endpoint.
+     *
+     * @param url - The URL of the endpoint.
+     * @param method - The HTTP method of the request.
+     * @param accessToken - (Optional) The initial access token or the registration access token.
+     * @param metadata - (Optional) The client metadata to be sent in the body of the request.
+     *
+     * @returns The response of the request.
+     */
+    public async sendClientRegistrationRequest(
+        url: string,
+        method: "GET" | "POST" | "PUT" | "DELETE",
+        accessToken?: string,
+        metadata?: ClientMetadata
+    ): Promise<Response> {
+        const configData: StrictAuthClientConfig = await this._config();
+        const headers: Record<string, string> = {
+            Accept: "application/json"
+        };
+
+        metadata && (headers[ "Content-Type" ] = "application/json");
+        accessToken && (headers.Authorization = `Bearer ${ accessToken }`);
+
+        let response: Response;
+
+        try {
+            response = await fetch(url, {
+                body: metadata ? JSON.stringify(metadata) : undefined,
+                credentials: configData.sendCookiesInRequests
+                    ? FetchCredentialTypes.Include
+                    : FetchCredentialTypes.SameOrigin,
+                headers: new Headers(headers),
+                method: method
+            });
+        } catch (error: any) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-SCRR-NE01",
+                "The client registration request failed.",
+                error ?? "The request sent to the client registration endpoint failed."
+            );
+        }
+
+        if (!response.ok) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-SCRR-HE02",
+                `Invalid response status received for the client registration request (${ response.statusText }).`,
+                await response.text()
+            );
+        }
+
+        return response;
+    }
+
+    /**
+     * This resolves the client configuration endpoint used to read, update and delete a client registration.
+     *
+     * @param registration - The client registration.
+     *
+     * @returns The URL of the client configuration endpoint.
+     */
+    public async resolveClientConfigurationEndpoint(registration: ClientRegistrationResponse): Promise<string> {
+        if (registration.registration_client_uri) {
+            return registration.registration_client_uri;
+        }
+
+        const registrationEndpoint: string | undefined = (await this._oidcProviderMetaData()).registration_endpoint;
+
+        if (!registrationEndpoint || registrationEndpoint.trim().length === 0) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-RCCE-NF01",
+                "No client configuration endpoint found.",
+                "The client registration does not contain a `registration_client_uri` and no registration " +
+                "endpoint was found in the OIDC provider meta data returned by the well-known endpoint."
+            );
+        }
+
+        // Falls back to the convention of appending the client ID to the registration endpoint.
+        return `${ registrationEndpoint.replace(/\/$/, "") }/${ encodeURIComponent(registration.client_id) }`;
+    }
+
     public async clearUserSessionData(userID?: string): Promise<void> {
         await this._dataLayer.removeTemporaryData(userID);
         await this._dataLayer.removeSessionData(userID);
+        await this.updateSessionIndex(undefined, userID);
     }
 
-    public async handleTokenResponse(response: Response, userID?: string): Promise<TokenResponse> {
+    /**
+     * This handles the response of a token request and stores the session data.
+     *
+     * @param response - The response of the token request.
+     * @param userID - The userID to identify a user in a multi-user scenario.
+     * @param nonce - (Optional) The nonce sent in the authorization request. If provided, the `nonce`
+     * claim of the id_token must match this value.
+     * @param authenticationRequirements - (Optional) The `acr_values`, the `max_age` and the essential claims sent in
+     * the authorization request, which the id_token must satisfy.
+     *
+     * @returns The token response.
+     */
+    public async handleTokenResponse(
+        response: Response,
+        userID?: string,
+        nonce?: string,
+        authenticationRequirements?: AuthenticationRequirements
+    ): Promise<TokenResponse> {
         if (response.status !== 200 || !response.ok) {
             throw new AsgardeoAuthException(
                 "JS-AUTH_HELPER-HTR-NE01",
@@ -290,12 +811,49 @@ export class AuthenticationHelper<T> {
 
         parsedResponse.created_at = new Date().getTime();
 
+        // An encrypted ID token is stored as the signed ID token nested in it so that it can be decoded later.
+        if (parsedResponse.id_token) {
+            parsedResponse.id_token = await this.decryptIdToken(parsedResponse.id_token);
+        }
+
+        if (nonce !== undefined && this._cryptoHelper.decodeIDToken(parsedResponse.id_token)?.nonce !== nonce) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-HTR-IV02",
+                "Invalid nonce.",
+                "The nonce in the id_token is either missing or does not match the nonce sent " +
+                "in the authorization request."
+            );
+        }
+
+        const atHash: string | undefined = parsedResponse.id_token
+            ? this._cryptoHelper.decodeIDToken(parsedResponse.id_token)?.at_hash
+            : undefined;
+
+        if (atHash && atHash !== this._cryptoHelper.getTokenHash(
+            parsedResponse.access_token, this._cryptoHelper.decodeJwtHeader(parsedResponse.id_token).alg)) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-HTR-IV03",
+                "Invalid access token hash.",
+                "The at_hash in the id_token does not match the hash of the access token."
+            );
+        }
+
+        if (authenticationRequirements) {
+            this.validateAuthenticationRequirements(parsedResponse.id_token, authenticationRequirements,
+                (await this._config()).clockTolerance);
+        }
+
         if ((await this._config()).validateIDToken) {
             return this.validateIdToken(parsedResponse.id_token).then(async () => {
                 await this._dataLayer.setSessionData(parsedResponse, userID);
 
+                if (parsedResponse.id_token) {
+                    await this.updateSessionIndex(parsedResponse.id_token, userID);
+                }
+
                 const tokenResponse: TokenResponse = {
                     accessToken: parsedResponse.access_token,
+                    authorizationDetails: parsedResponse.authorization_details,
                     createdAt: parsedResponse.created_at,
                     expiresIn: parsedResponse.expires_in,
                     idToken: parsedResponse.id_token,
@@ -309,6 +867,7 @@ export class AuthenticationHelper<T> {
         } else {
             const tokenResponse: TokenResponse = {
                 accessToken: parsedResponse.access_token,
+                authorizationDetails: parsedResponse.authorization_details,
                 createdAt: parsedResponse.created_at,
                 expiresIn: parsedResponse.expires_in,
                 idToken: parsedResponse.id_token,
@@ -319,10 +878,433 @@ export class AuthenticationHelper<T> {
 
             await this._dataLayer.setSessionData(parsedResponse, userID);
 
+            if (parsedResponse.id_token) {
+                await this.updateSessionIndex(parsedResponse.id_token, userID);
+            }
+
             return Promise.resolve(tokenResponse);
         }
     }
 
+    /**
+     * This validates that the authentication represented by an ID token satisfies the requested requirements.
+     *
+     * @param idToken - The ID token.
+     * @param authenticationRequirements - The `acr_values`, the `max_age` and the claims sent in the authorization
+     * request.
+     * @param clockTolerance - Allowed leeway (in seconds).
+     *
+     * @throws
+     */
+    public validateAuthenticationRequirements(
+        idToken: string,
+        authenticationRequirements: AuthenticationRequirements,
+        clockTolerance?: number
+    ): void {
+        const payload: DecodedIDTokenPayload = this._cryptoHelper.decodeIDToken(idToken);
+
+        if (authenticationRequirements.maxAge !== undefined && (typeof payload.auth_time !== "number"
+            || Math.floor(Date.now() / 1000) - payload.auth_time
+                > authenticationRequirements.maxAge + (clockTolerance ?? 0))) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-VAR-IV01",
+                "Authentication too old.",
+                "The auth_time in the id_token is either missing or older than the requested max_age of " +
+                `${ authenticationRequirements.maxAge } seconds.`
+            );
+        }
+
+        if (authenticationRequirements.acrValues && authenticationRequirements.acrValues.length > 0
+            && !authenticationRequirements.acrValues.includes(payload.acr)) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-VAR-IV02",
+                "Insufficient authentication level.",
+                `The acr in the id_token (${ payload.acr }) is not one of the requested values: ` +
+                authenticationRequirements.acrValues.join(", ")
+            );
+        }
+
+        const unsatisfiedClaims: string[] = AuthenticationUtils.getUnsatisfiedEssentialClaims(
+            authenticationRequirements.claims, payload);
+
+        if (unsatisfiedClaims.length > 0) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-VAR-IV03",
+                "Essential claims not satisfied.",
+                "The following essential claims requested for the id_token are either missing or do not have " +
+                `the requested value: ${ unsatisfiedClaims.join(", ") }`
+            );
+        }
+    }
+
+    /**
+     * This resolves the method used to authenticate the client. If no method is configured, a method advertised by
+     * the server is chosen so that the client secret isn't sent in the body when the server accepts another method.
+     *
+     * @returns The client authentication method.
+     */
+    public async resolveTokenEndpointAuthMethod(): Promise<TokenEndpointAuthMethod> {
+        const configData: StrictAuthClientConfig = await this._config();
+
+        if (configData.tokenEndpointAuthMethod) {
+            return configData.tokenEndpointAuthMethod;
+        }
+
+        if (!configData.clientSecret || configData.clientSecret.trim().length === 0) {
+            return TokenEndpointAuthMethod.none;
+        }
+
+        const supportedMethods: string[] | undefined = (await this._oidcProviderMetaData())
+            .token_endpoint_auth_methods_supported;
+        const requiredCryptoMethods: Partial<Record<TokenEndpointAuthMethod, keyof CryptoUtils>> = {
+            [ TokenEndpointAuthMethod.clientSecretBasic ]: "base64Encode",
+            [ TokenEndpointAuthMethod.clientSecretJwt ]: "signJwt"
+        };
+
+        // A method is only chosen if the `CryptoUtils` can perform it. Falls back to sending the client secret in the
+        // body when the server doesn't advertise another method.
+        return [
+            TokenEndpointAuthMethod.clientSecretBasic,
+            TokenEndpointAuthMethod.clientSecretJwt
+        ].find((method: TokenEndpointAuthMethod) => supportedMethods?.includes(method)
+            && this._cryptoHelper.isImplemented(requiredCryptoMethods[ method ] as keyof CryptoUtils))
+            ?? TokenEndpointAuthMethod.clientSecretPost;
+    }
+
+    /**
+     * This returns the headers and the body parameters that should be sent to authenticate the client.
+     *
+     * @param audience - The endpoint the request is sent to. This is used as the audience of client assertions.
+     *
+     * @returns The client authentication headers and body parameters.
+     */
+    public async getClientAuthentication(audience: string): Promise<ClientAuthentication> {
+        const configData: StrictAuthClientConfig = await this._config();
+        const method: TokenEndpointAuthMethod = await this.resolveTokenEndpointAuthMethod();
+        const clientSecret: string = configData.clientSecret?.trim() ?? "";
+        const clientAuthentication: ClientAuthentication = {
+            headers: {},
+            params: {
+                client_id: configData.clientID
+            }
+        };
+
+        if (method === TokenEndpointAuthMethod.none) {
+            return clientAuthentication;
+        }
+
+        if (method !== TokenEndpointAuthMethod.privateKeyJwt && clientSecret.length === 0) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-GCA-NF01",
+                "Client secret not found.",
+                `The client secret is required to authenticate the client using the ${ method } method.`
+            );
+        }
+
+        if (method === TokenEndpointAuthMethod.clientSecretBasic) {
+            const credentials: string = `${ encodeURIComponent(configData.clientID) }:${
+                encodeURIComponent(clientSecret) }`;
+
+            clientAuthentication.headers.Authorization = `Basic ${ this._cryptoHelper.base64Encode(credentials) }`;
+        } else if (method === TokenEndpointAuthMethod.clientSecretPost) {
+            clientAuthentication.params.client_secret = clientSecret;
+        } else if (
+            method === TokenEndpointAuthMethod.clientSecretJwt
+            || method === TokenEndpointAuthMethod.privateKeyJwt
+        ) {
+            const isClientSecretJwt: boolean = method === TokenEndpointAuthMethod.clientSecretJwt;
+            const issuedAt: number = Math.floor(Date.now() / 1000);
+
+            clientAuthentication.params.client_assertion_type = CLIENT_ASSERTION_TYPE_JWT_BEARER;
+            clientAuthentication.params.client_assertion = await this._cryptoHelper.signJwt(
+                {
+                    alg: configData.tokenEndpointAuthSigningAlgorithm ?? (isClientSecretJwt
+                        ? DEFAULT_CLIENT_SECRET_JWT_SIGNING_ALGORITHM
+                        : DEFAULT_PRIVATE_KEY_JWT_SIGNING_ALGORITHM),
+                    typ: "JWT"
+                },
+                {
+                    aud: audience,
+                    exp: issuedAt + CLIENT_ASSERTION_LIFETIME,
+                    iat: issuedAt,
+                    iss: configData.clientID,
+                    jti: this._cryptoHelper.getNonce(),
+                    sub: configData.clientID
+                },
+                isClientSecretJwt ? clientSecret : undefined
+            );
+        } else {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-GCA-IV02",
+                "Invalid client authentication method.",
+                `The client authentication method ${ method } is not supported by the SDK.`
+            );
+        }
+
+        return clientAuthentication;
+    }
+
+    /**
+     * This returns the DPoP key pair of the session. A new key pair is generated if the session doesn't have one.
+     *
+     * @param userID - The userID to identify a user in a multi-user scenario.
+     *
+     * @returns The DPoP key pair.
+     */
+    public async getDPoPKeyPair(userID?: string): Promise<KeyPair> {
+        const keyPair: KeyPair | undefined = (await this._dataLayer.getSessionData(userID))?.dpop_key_pair;
+
+        if (keyPair) {
+            return keyPair;
+        }
+
+        const newKeyPair: KeyPair = await this._cryptoHelper.generateKeyPair(
+            (await this._config()).dpopSigningAlgorithm ?? DEFAULT_DPOP_SIGNING_ALGORITHM
+        );
+
+        await this._dataLayer.setSessionData({ dpop_key_pair: newKeyPair }, userID);
+
+        return newKeyPair;
+    }
+
+    /**
+     * This creates a DPoP proof using the DPoP key pair of the session.
+     *
+     * @param httpMethod - The HTTP method of the request.
+     * @param url - The URL of the request.
+     * @param userID - The userID to identify a user in a multi-user scenario.
+     * @param accessToken - (Optional) The access token sent with the request.
+     * @param nonce - (Optional) The nonce provided by the server.
+     *
+     * @returns The DPoP proof.
+     */
+    public async createDPoPProof(
+        httpMethod: string,
+        url: string,
+        userID?: string,
+        accessToken?: string,
+        nonce?: string
+    ): Promise<string> {
+        return this._cryptoHelper.createDPoPProof(
+            await this.getDPoPKeyPair(userID),
+            (await this._config()).dpopSigningAlgorithm ?? DEFAULT_DPOP_SIGNING_ALGORITHM,
+            httpMethod,
+            url,
+            accessToken,
+            nonce
+        );
+    }
+
+    /**
+     * This sends a request to the authorization server. If DPoP is enabled, a DPoP proof is attached to the request
+     * and the request is retried once if the server challenges it with a new DPoP nonce.
+     *
+     * @param url - The URL of the request.
+     * @param requestConfig - The request config.
+     * @param userID - The userID to identify a user in a multi-user scenario.
+     * @param accessToken - (Optional) The access token sent with the request.
+     *
+     * @returns The response.
+     */
+    public async fetchWithDPoP(
+        url: string,
+        requestConfig: FetchRequestConfig,
+        userID?: string,
+        accessToken?: string
+    ): Promise<Response> {
+        if (!(await this._config()).enableDPoP) {
+            return fetch(url, requestConfig);
+        }
+
+        const sendRequest = async (nonce?: string): Promise<Response> => {
+            const headers: Headers = new Headers(requestConfig.headers);
+
+            headers.set(
+                DPOP_HEADER,
+                await this.createDPoPProof(requestConfig.method ?? "GET", url, userID, accessToken, nonce)
+            );
+
+            const response: Response = await fetch(url, { ...requestConfig, headers });
+            const serverNonce: string | null = response.headers.get(DPOP_NONCE_HEADER);
+
+            if (serverNonce) {
+                await this._dataLayer.setSessionDataParameter("dpop_nonce", serverNonce, userID);
+            }
+
+            return response;
+        };
+
+        const nonce: string | undefined = (await this._dataLayer.getSessionData(userID))?.dpop_nonce;
+        const response: Response = await sendRequest(nonce);
+        const challengedNonce: string | null = response.headers.get(DPOP_NONCE_HEADER);
+
+        if (!response.ok && challengedNonce && challengedNonce !== nonce) {
+            return sendRequest(challengedNonce);
+        }
+
+        return response;
+    }
+
+    /**
+     * This polls the token endpoint until the authorization request is granted, denied or expired, or the polling is
+     * cancelled. This is used by the grants in which the user authorizes the client on a separate device.
+     *
+     * @param params - The grant specific body parameters of the token request.
+     * @param interval - The polling interval in seconds.
+     * @param expiresIn - The lifetime of the authorization request in seconds.
+     * @param signal - (Optional) An abort signal to cancel the polling.
+     * @param userID - The userID to identify a user in a multi-user scenario.
+     *
+     * @returns The token response.
+     */
+    public async pollTokenEndpoint(
+        params: Record<string, string>,
+        interval: number,
+        expiresIn: number,
+        signal?: AbortSignal,
+        userID?: string
+    ): Promise<TokenResponse> {
+        const tokenEndpoint: string | undefined = (await this._oidcProviderMetaData()).token_endpoint;
+        const configData: StrictAuthClientConfig = await this._config();
+
+        if (!tokenEndpoint || tokenEndpoint.trim().length === 0) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-PTE-NF01",
+                "Token endpoint not found.",
+                "No token endpoint was found in the OIDC provider meta data returned by the well-known endpoint " +
+                "or the token endpoint passed to the SDK is empty."
+            );
+        }
+
+        const expiresAt: number = Date.now() + expiresIn * 1000;
+        let pollingInterval: number = interval;
+
+        while (Date.now() < expiresAt) {
+            await AuthenticationUtils.wait(pollingInterval * 1000, signal);
+
+            if (signal?.aborted) {
+                throw new AsgardeoAuthException(
+                    "JS-AUTH_HELPER-PTE-CN02",
+                    "Polling cancelled.",
+                    "Polling the token endpoint was cancelled before the authorization request was completed."
+                );
+            }
+
+            const clientAuthentication: ClientAuthentication = await this.getClientAuthentication(tokenEndpoint);
+            const body: URLSearchParams = new URLSearchParams({ ...clientAuthentication.params, ...params });
+
+            let response: Response;
+
+            try {
+                response = await this.fetchWithDPoP(tokenEndpoint, {
+                    body: body,
+                    credentials: configData.sendCookiesInRequests
+                        ? FetchCredentialTypes.Include
+                        : FetchCredentialTypes.SameOrigin,
+                    headers: new Headers({
+                        ...AuthenticationUtils.getTokenRequestHeaders(),
+                        ...clientAuthentication.headers
+                    }),
+                    method: "POST"
+                }, userID);
+            } catch (error: any) {
+                throw new AsgardeoAuthException(
+                    "JS-AUTH_HELPER-PTE-NE03",
+                    "Requesting access token failed",
+                    error ?? "The request to get the access token from the server failed."
+                );
+            }
+
+            if (response.ok) {
+                return this.handleTokenResponse(response, userID);
+            }
+
+            const errorResponse: Record<string, string> = await response.json();
+
+            if (errorResponse?.error === "authorization_pending") {
+                continue;
+            }
+
+            if (errorResponse?.error === "slow_down") {
+                pollingInterval += SLOW_DOWN_POLLING_INTERVAL_INCREMENT;
+
+                continue;
+            }
+
+            if (errorResponse?.error === "expired_token") {
+                break;
+            }
+
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-PTE-HE04",
+                `Requesting access token failed with ${ response.statusText }`,
+                errorResponse?.error_description ?? errorResponse?.error
+                    ?? "The token request was rejected by the server."
+            );
+        }
+
+        throw new AsgardeoAuthException(
+            "JS-AUTH_HELPER-PTE-TO05",
+            "Authorization request expired.",
+            "The authorization request expired before the user authorized the client."
+        );
+    }
+
+    /**
+     * This packs the authorization request parameters into a signed request object.
+     *
+     * @param authorizeRequestParams - The authorization request parameters.
+     *
+     * @returns The signed request object.
+     */
+    public async createRequestObject(authorizeRequestParams: Map<string, string | string[]>): Promise<string> {
+        const configData: StrictAuthClientConfig = await this._config();
+        const oidcProviderMetaData: OIDCProviderMetaData = await this._oidcProviderMetaData();
+        const algorithm: string = configData.requestObjectSigningAlgorithm ?? DEFAULT_REQUEST_OBJECT_SIGNING_ALGORITHM;
+
+        if (oidcProviderMetaData.request_object_signing_alg_values_supported
+            && !oidcProviderMetaData.request_object_signing_alg_values_supported.includes(algorithm)) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-CRO-IV01",
+                "Unsupported request object signing algorithm.",
+                `The request object signing algorithm ${ algorithm } is not supported by the server. ` +
+                "Supported algorithms: " + oidcProviderMetaData.request_object_signing_alg_values_supported.join(", ")
+            );
+        }
+
+        if (!oidcProviderMetaData.issuer || oidcProviderMetaData.issuer.trim().length === 0) {
+            throw new AsgardeoAuthException(
+                "JS-AUTH_HELPER-CRO-NF02",
+                "Issuer not found.",
+                "No issuer was found in the OIDC provider meta data returned by the well-known endpoint " +
+                "or the issuer passed to the SDK is empty. The issuer is the audience of the request object."
+            );
+        }
+
+        const issuedAt: number = Math.floor(Date.now() / 1000);
+        const payload: JWTPayload = {};
+
+        authorizeRequestParams.forEach((value: string | string[], key: string) => {
+            payload[ key ] = value;
+        });
+
+        return this._cryptoHelper.signJwt(
+            {
+                alg: algorithm,
+                typ: "oauth-authz-req+jwt"
+            },
+            {
+                ...payload,
+                aud: oidcProviderMetaData.issuer,
+                exp: issuedAt + REQUEST_OBJECT_LIFETIME,
+                iat: issuedAt,
+                iss: configData.clientID,
+                jti: this._cryptoHelper.getNonce(),
+                nbf: issuedAt
+            }
+        );
+    }
+
     /**
      * This generates a PKCE key with the right index value.
      *
@@ -332,17 +1314,15 @@ export class AuthenticationHelper<T> {
      */
     public async generatePKCEKey(userID?: string): Promise<string> {
         const tempData: TemporaryData = await this._dataLayer.getTemporaryData(userID);
-        const keys: string[] = [];
+        let index: number = -1;
 
-        Object.keys(tempData).forEach((key: string) => {
-            if (key.startsWith(PKCE_CODE_VERIFIER)) {
-                keys.push(key);
+        // The nonce is stored against the same index, so that the index is unique even when PKCE is disabled.
+        Object.keys(tempData ?? {}).forEach((key: string) => {
+            if (key.startsWith(PKCE_CODE_VERIFIER) || key.startsWith(OIDC_NONCE)) {
+                index = Math.max(index, parseInt(key.split(PKCE_SEPARATOR)[ 1 ]));
             }
         });
 
-        const lastKey: string | undefined = keys.sort().pop();
-        const index: number = parseInt(lastKey?.split(PKCE_SEPARATOR)[ 1 ] ?? "-1");
-
         return `${ PKCE_CODE_VERIFIER }${ PKCE_SEPARATOR }${ index + 1 }`;
     }
 }
@@ -18,7 +18,8 @@
 
 import { SUPPORTED_SIGNATURE_ALGORITHMS } from "../constants";
 import { AsgardeoAuthException } from "../exception";
-import { CryptoUtils, DecodedIDTokenPayload, JWKInterface } from "../models";
+import { CryptoUtils, DecodedIDTokenPayload, JWKInterface, JWTHeader, JWTPayload, KeyPair } from "../models";
+import { AuthenticationUtils } from "../utils";
 
 export class CryptoHelper<T = any> {
     private _cryptoUtils: CryptoUtils<T>;
@@ -47,6 +48,15 @@ export class CryptoHelper<T = any> {
         return this._cryptoUtils.base64URLEncode(this._cryptoUtils.hashSha256(verifier));
     }
 
+    /**
+     * Generate a nonce to bind the id_token to the authorization request.
+     *
+     * @returns nonce.
+     */
+    public getNonce(): string {
+        return this._cryptoUtils.base64URLEncode(this._cryptoUtils.generateRandomBytes(32));
+    }
+
     /**
      * Get JWK used for the id_token
      *
@@ -116,6 +126,354 @@ export class CryptoHelper<T = any> {
             });
     }
 
+    /**
+     * Verify a signed UserInfo response.
+     *
+     * @param userInfoToken - The signed UserInfo response received from the IdP.
+     * @param jwk - public key used for signing.
+     * @param clientID - app identification.
+     * @param issuer - UserInfo response issuer.
+     * @param subject - The expected subject.
+     * @param clockTolerance - Allowed leeway (in seconds).
+     *
+     * @returns whether the UserInfo response is valid.
+     *
+     * @throws
+     */
+    public isValidUserInfoToken(
+        userInfoToken: string,
+        jwk: JWKInterface,
+        clientID: string,
+        issuer: string,
+        subject: string,
+        clockTolerance: number | undefined
+    ): Promise<boolean> {
+        return this._cryptoUtils
+            .verifyJwt(userInfoToken, jwk, SUPPORTED_SIGNATURE_ALGORITHMS, clientID, issuer, subject, clockTolerance)
+            .then((response: boolean) => {
+                if (response) {
+                    return Promise.resolve(true);
+                }
+
+                return Promise.reject(
+                    new AsgardeoAuthException(
+                        "JS-CRYPTO_HELPER-IVUT-IV01",
+                        "Invalid UserInfo response.",
+                        "UserInfo response validation returned false"
+                    )
+                );
+            });
+    }
+
+    /**
+     * Verify a JWT secured authorization response.
+     *
+     * @param responseToken - The signed authorization response received from the IdP.
+     * @param jwk - public key used for signing.
+     * @param clientID - app identification.
+     * @param issuer - authorization response issuer.
+     * @param clockTolerance - Allowed leeway (in seconds).
+     *
+     * @returns whether the authorization response is valid.
+     *
+     * @throws
+     */
+    public isValidAuthorizationResponseToken(
+        responseToken: string,
+        jwk: JWKInterface,
+        clientID: string,
+        issuer: string,
+        clockTolerance: number | undefined
+    ): Promise<boolean> {
+        return this._cryptoUtils
+            .verifyJwt(responseToken, jwk, SUPPORTED_SIGNATURE_ALGORITHMS, clientID, issuer, undefined, clockTolerance)
+            .then((response: boolean) => {
+                if (response) {
+                    return Promise.resolve(true);
+                }
+
+                return Promise.reject(
+                    new AsgardeoAuthException(
+                        "JS-CRYPTO_HELPER-IVART-IV01",
+                        "Invalid authorization response.",
+                        "Authorization response validation returned false"
+                    )
+                );
+            });
+    }
+
+    /**
+     * Verify a back-channel logout token.
+     *
+     * @param logoutToken - The logout token received from the IdP.
+     * @param jwk - public key used for signing.
+     * @param clientID - app identification.
+     * @param issuer - logout token issuer.
+     * @param clockTolerance - Allowed leeway (in seconds).
+     *
+     * @returns whether the logout token is valid.
+     *
+     * @throws
+     */
+    public isValidLogoutToken(
+        logoutToken: string,
+        jwk: JWKInterface,
+        clientID: string,
+        issuer: string,
+        clockTolerance: number | undefined
+    ): Promise<boolean> {
+        return this._cryptoUtils
+            .verifyJwt(logoutToken, jwk, SUPPORTED_SIGNATURE_ALGORITHMS, clientID, issuer, undefined, clockTolerance)
+            .then((response: boolean) => {
+                if (response) {
+                    return Promise.resolve(true);
+                }
+
+                return Promise.reject(
+                    new AsgardeoAuthException(
+                        "JS-CRYPTO_HELPER-IVLT-IV01",
+                        "Invalid logout token.",
+                        "Logout token validation returned false"
+                    )
+                );
+            });
+    }
+
+    /**
+     * Checks if a JWT is a JWE.
+     *
+     * @param jwt - The JWT in the compact serialization format.
+     *
+     * @returns True if the JWT is a JWE.
+     */
+    public isJwe(jwt: string): boolean {
+        // A JWE in the compact serialization format has five parts whereas a JWS has three.
+        return jwt.split(".").length === 5;
+    }
+
+    /**
+     * Decrypt a JWE.
+     *
+     * @param jwe - The JWE to be decrypted.
+     * @param keyID - (Optional) The ID of the decryption key.
+     *
+     * @returns The decrypted content.
+     *
+     * @throws
+     */
+    public decryptJwe(jwe: string, keyID?: string): Promise<string> {
+        if (!this._cryptoUtils.decryptJwe) {
+            throw new AsgardeoAuthException(
+                "JS-CRYPTO_HELPER-DJ-NF01",
+                "JWE decryption not supported.",
+                "The `decryptJwe` method is not implemented by the `CryptoUtils` object passed to the SDK."
+            );
+        }
+
+        return this._cryptoUtils.decryptJwe(jwe, keyID);
+    }
+
+    /**
+     * Checks if an optional method is implemented by the `CryptoUtils` object passed to the SDK.
+     *
+     * @param method - The name of the method.
+     *
+     * @returns True if the method is implemented.
+     */
+    public isImplemented(method: keyof CryptoUtils): boolean {
+        return typeof this._cryptoUtils[ method ] === "function";
+    }
+
+    /**
+     * Encode a string in base64 format.
+     *
+     * @param value - The string to be encoded.
+     *
+     * @returns The encoded string.
+     *
+     * @throws
+     */
+    public base64Encode(value: string): string {
+        if (!this._cryptoUtils.base64Encode) {
+            throw new AsgardeoAuthException(
+                "JS-CRYPTO_HELPER-BE-NF01",
+                "Base64 encoding not supported.",
+                "The `base64Encode` method is not implemented by the `CryptoUtils` object passed to the SDK."
+            );
+        }
+
+        return this._cryptoUtils.base64Encode(value);
+    }
+
+    /**
+     * Sign a JWT.
+     *
+     * @param header - Header of the JWT.
+     * @param payload - Payload of the JWT.
+     * @param key - (Optional) The key to sign with. Defaults to the signing key of the client.
+     *
+     * @returns The signed JWT.
+     *
+     * @throws
+     */
+    public signJwt(header: JWTHeader, payload: JWTPayload, key?: string): Promise<string> {
+        if (!this._cryptoUtils.signJwt) {
+            throw new AsgardeoAuthException(
+                "JS-CRYPTO_HELPER-SJ-NF01",
+                "JWT signing not supported.",
+                "The `signJwt` method is not implemented by the `CryptoUtils` object passed to the SDK."
+            );
+        }
+
+        return this._cryptoUtils.signJwt(header, payload, key);
+    }
+
+    /**
+     * Generate an asymmetric key pair.
+     *
+     * @param algorithm - The JWS algorithm the key pair will be used with.
+     *
+     * @returns The key pair.
+     *
+     * @throws
+     */
+    public generateKeyPair(algorithm: string): Promise<KeyPair> {
+        if (!this._cryptoUtils.generateKeyPair) {
+            throw new AsgardeoAuthException(
+                "JS-CRYPTO_HELPER-GKP-NF01",
+                "Key pair generation not supported.",
+                "The `generateKeyPair` method is not implemented by the `CryptoUtils` object passed to the SDK."
+            );
+        }
+
+        return this._cryptoUtils.generateKeyPair(algorithm);
+    }
+
+    /**
+     * Create a DPoP proof.
+     *
+     * @param keyPair - The DPoP key pair.
+     * @param algorithm - The algorithm to sign the proof with.
+     * @param httpMethod - The HTTP method of the request.
+     * @param url - The URL of the request.
+     * @param accessToken - (Optional) The access token sent with the request.
+     * @param nonce - (Optional) The nonce provided by the server.
+     *
+     * @returns The DPoP proof.
+     */
+    public createDPoPProof(
+        keyPair: KeyPair,
+        algorithm: string,
+        httpMethod: string,
+        url: string,
+        accessToken?: string,
+        nonce?: string
+    ): Promise<string> {
+        const htu: URL = new URL(url);
+
+        htu.search = "";
+        htu.hash = "";
+
+        const payload: JWTPayload = {
+            htm: httpMethod.toUpperCase(),
+            htu: htu.toString(),
+            iat: Math.floor(Date.now() / 1000),
+            jti: this.getNonce()
+        };
+
+        if (accessToken) {
+            payload.ath = this._cryptoUtils.base64URLEncode(this._cryptoUtils.hashSha256(accessToken));
+        }
+
+        if (nonce) {
+            payload.nonce = nonce;
+        }
+
+        return this.signJwt(
+            {
+                alg: algorithm,
+                jwk: keyPair.publicKey,
+                typ: "dpop+jwt"
+            },
+            payload,
+            keyPair.privateKey
+        );
+    }
+
+    /**
+     * Compute the value of a token hash claim such as `at_hash` or `c_hash`.
+     *
+     * @param token - The token or the code to be hashed.
+     * @param algorithm - The algorithm used to sign the ID token. The hash algorithm is derived from it.
+     *
+     * @returns The base64url encoded left-most half of the hash.
+     *
+     * @throws
+     */
+    public getTokenHash(token: string, algorithm: string): string {
+        // EdDSA signed ID tokens use SHA-512 as specified by OpenID Connect.
+        const hashLength: string | undefined = algorithm === "EdDSA"
+            ? "512"
+            : /(256|384|512)$/.exec(algorithm)?.[ 0 ];
+
+        if (!hashLength) {
+            throw new AsgardeoAuthException(
+                "JS-CRYPTO_HELPER-GTH-IV01",
+                "Unsupported algorithm.",
+                `The hash algorithm for the ${ algorithm } algorithm could not be determined.`
+            );
+        }
+
+        if (hashLength !== "256" && !this._cryptoUtils.hash) {
+            throw new AsgardeoAuthException(
+                "JS-CRYPTO_HELPER-GTH-NF02",
+                "Hash function not found.",
+                "The `hash` method of the CryptoUtils is required to compute hashes for the " +
+                `${ algorithm } algorithm.`
+            );
+        }
+
+        const hash: T = hashLength === "256"
+            ? this._cryptoUtils.hashSha256(token)
+            : (this._cryptoUtils.hash as (data: string, algorithm: string) => T)(token, `SHA-${ hashLength }`);
+
+        return AuthenticationUtils.getLeftHalfOfBase64URLValue(this._cryptoUtils.base64URLEncode(hash));
+    }
+
+    /**
+     * This function decodes the header of a JWT and returns it.
+     *
+     * @param jwt - The JWT to be decoded.
+     *
+     * @returns - The decoded header of the JWT.
+     *
+     * @throws
+     */
+    public decodeJwtHeader(jwt: string): JWTHeader {
+        try {
+            return JSON.parse(this._cryptoUtils.base64URLDecode(jwt.split(".")[ 0 ]));
+        } catch (error: any) {
+            throw new AsgardeoAuthException("JS-CRYPTO_HELPER-DJH-IV01", "Decoding JWT header failed.", error);
+        }
+    }
+
+    /**
+     * This function decodes the payload of a JWT and returns it.
+     *
+     * @param jwt - The JWT to be decoded.
+     *
+     * @returns - The decoded payload of the JWT.
+     *
+     * @throws
+     */
+    public decodeJwtPayload(jwt: string): JWTPayload {
+        try {
+            return JSON.parse(this._cryptoUtils.base64URLDecode(jwt.split(".")[ 1 ]));
+        } catch (error: any) {
+            throw new AsgardeoAuthException("JS-CRYPTO_HELPER-DJP-IV01", "Decoding JWT payload failed.", error);
+        }
+    }
+
     /**
      * This function decodes the payload of an id token and returns it.
      *
@@ -126,6 +484,14 @@ export class CryptoHelper<T = any> {
      * @throws
      */
     public decodeIDToken(idToken: string): DecodedIDTokenPayload {
+        if (typeof idToken === "string" && this.isJwe(idToken)) {
+            throw new AsgardeoAuthException(
+                "JS-CRYPTO_UTIL-DIT-IV02",
+                "Encrypted ID token.",
+                "The ID token is encrypted and should be decrypted before it is decoded."
+            );
+        }
+
         try {
             const utf8String: string = this._cryptoUtils.base64URLDecode(idToken.split(".")[ 1 ]);
             const payload: DecodedIDTokenPayload = JSON.parse(utf8String);
@@ -18,3 +18,4 @@
 
 export * from "./authentication-helper";
 export * from "./crypto-helper";
+export * from "./session-monitor";
@@ -0,0 +1,209 @@
+/**
+ * Copyright (c) 2026, WSO2 LLC. (https://www.wso2.com). All Rights Reserved.
+ *
+ * WSO2 LLC. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import { DEFAULT_SESSION_CHECK_INTERVAL, SessionStatus } from "../constants";
+import { DataLayer } from "../data";
+import { AsgardeoAuthException } from "../exception";
+import {
+    AuthorizationURLParams,
+    SessionData,
+    SessionMonitorConfig,
+    SessionMonitorEvent,
+    SessionMonitorSubscriber,
+    SessionMonitorTransport
+} from "../models";
+
+/**
+ * This class monitors the session of the user at the OP as specified by OpenID Connect Session Management.
+ */
+export class SessionMonitor<T> {
+    private _dataLayer: DataLayer<T>;
+    private _getAuthorizationURL: (config: AuthorizationURLParams, userID?: string) => Promise<string>;
+    private _transport: SessionMonitorTransport;
+    private _config: SessionMonitorConfig;
+    private _subscribers: SessionMonitorSubscriber[];
+    private _timer: ReturnType<typeof setTimeout> | undefined;
+    private _isRunning: boolean;
+
+    public constructor(
+        dataLayer: DataLayer<T>,
+        transport: SessionMonitorTransport,
+        getAuthorizationURL: (config: AuthorizationURLParams, userID?: string) => Promise<string>,
+        config?: SessionMonitorConfig
+    ) {
+        this._dataLayer = dataLayer;
+        this._getAuthorizationURL = getAuthorizationURL;
+        this._transport = transport;
+        this._config = config ?? {};
+        this._subscribers = [];
+        this._isRunning = false;
+    }
+
+    /**
+     * Subscribe to the session status changes.
+     *
+     * @param subscriber - The function to be called with the result of every session check.
+     *
+     * @returns A function that removes the subscriber.
+     */
+    public subscribe(subscriber: SessionMonitorSubscriber): () => void {
+        this._subscribers.push(subscriber);
+
+        return (): void => {
+            this._subscribers = this._subscribers.filter(
+                (existingSubscriber: SessionMonitorSubscriber) => existingSubscriber !== subscriber);
+        };
+    }
+
+    /**
+     * Start checking the session periodically.
+     *
+     * Checking stops once the session has changed or an error has occurred. It should be started again after the
+     * user has been re-authenticated.
+     */
+    public start(): void {
+        if (this._isRunning) {
+            return;
+        }
+
+        this._isRunning = true;
+        this._scheduleCheck();
+    }
+
+    /**
+     * Stop checking the session.
+     */
+    public stop(): void {
+        this._isRunning = false;
+
+        if (this._timer !== undefined) {
+            clearTimeout(this._timer);
+            this._timer = undefined;
+        }
+    }
+
+    /**
+     * Check if the session is being checked periodically.
+     *
+     * @returns True if the session monitor is running.
+     */
+    public isRunning(): boolean {
+        return this._isRunning;
+    }
+
+    /**
+     * Build the message to be posted to the OP iframe.
+     *
+     * @returns The client ID and the session state separated by a space.
+     *
+     * @throws
+     */
+    public async getSessionCheckMessage(): Promise<string> {
+        const clientID: string = (await this._dataLayer.getConfigData()).clientID;
+        const sessionData: SessionData | undefined = await this._dataLayer.getSessionData(this._config.userID);
+
+        if (!sessionData?.session_state) {
+            throw new AsgardeoAuthException(
+                "JS-SESSION_MONITOR-GSCM-NF01",
+                "Session state not found.",
+                "The session state was not found in the session data. Check if the user has signed in and " +
+                "the authorization response contained the session state."
+            );
+        }
+
+        return `${ clientID } ${ sessionData.session_state }`;
+    }
+
+    /**
+     * Check the session once and notify the subscribers.
+     *
+     * @returns The status of the session.
+     */
+    public async checkSession(): Promise<SessionStatus> {
+        const event: SessionMonitorEvent = { status: SessionStatus.error };
+
+        try {
+            const checkSessionIframe: string | undefined = (await this._dataLayer.getOIDCProviderMetaData())
+                ?.check_session_iframe;
+
+            if (!checkSessionIframe || checkSessionIframe.trim().length === 0) {
+                throw new AsgardeoAuthException(
+                    "JS-SESSION_MONITOR-CS-NF01",
+                    "Check session iframe not found.",
+                    "No check session iframe endpoint was found in the OIDC provider meta data returned by " +
+                    "the well-known endpoint or the check session iframe endpoint passed to the SDK is empty."
+                );
+            }
+
+            const response: string = await this._transport.postMessage(
+                await this.getSessionCheckMessage(), checkSessionIframe);
+
+            if (response === SessionStatus.changed) {
+                event.status = SessionStatus.changed;
+                event.reauthenticationURL = await this._getAuthorizationURL(
+                    {
+                        ...this._config.reauthenticationParams,
+                        idTokenHint: (await this._dataLayer.getSessionData(this._config.userID))?.id_token,
+                        prompt: "none"
+                    },
+                    this._config.userID
+                );
+            } else if (response === SessionStatus.unchanged) {
+                event.status = SessionStatus.unchanged;
+            } else {
+                event.error = new AsgardeoAuthException(
+                    "JS-SESSION_MONITOR-CS-IV02",
+                    "Invalid session check response.",
+                    "The OP iframe returned an error or an unexpected response: " + response
+                );
+            }
+        } catch (error: any) {
+            event.error = error instanceof AsgardeoAuthException
+                ? error
+                : new AsgardeoAuthException(
+                    "JS-SESSION_MONITOR-CS-SE03",
+                    "Session check failed.",
+                    error?.message ?? String(error)
+                );
+        }
+
+        // A failing subscriber should neither affect the other subscribers nor stop the session checks.
+        this._subscribers.forEach((subscriber: SessionMonitorSubscriber) => {
+            try {
+                subscriber(event);
+            } catch {
+                // Errors thrown by the subscribers are ignored.
+            }
+        });
+
+        return event.status;
+    }
+
+    private _scheduleCheck(): void {
+        this._timer = setTimeout(async () => {
+            const status: SessionStatus = await this.checkSession().catch(() => SessionStatus.error);
+
+            // Checking is resumed only while the session is unchanged to avoid re-authentication loops.
+            if (this._isRunning && status === SessionStatus.unchanged) {
+                this._scheduleCheck();
+            } else {
+                this.stop();
+            }
+        }, (this._config.interval ?? DEFAULT_SESSION_CHECK_INTERVAL) * 1000);
+    }
+}
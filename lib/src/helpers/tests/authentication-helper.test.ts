@@ -0,0 +1,377 @@
+/**
+ * Copyright (c) 2026, WSO2 LLC. (https://www.wso2.com). All Rights Reserved.
+ *
+ * WSO2 LLC. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import { BACKCHANNEL_LOGOUT_EVENT, LOGOUT_TOKEN_MAX_AGE, TokenEndpointAuthMethod } from "../../constants";
+import { DataLayer } from "../../data";
+import { AuthClientConfig } from "../../models";
+import {
+    CLIENT_ID,
+    ENDPOINTS,
+    ISSUER,
+    TestCryptoUtils,
+    createDataLayer,
+    createJwe,
+    createJwt,
+    getTokenHash,
+    jsonResponse,
+    mockFetch,
+    now
+} from "../../tests/test-utils";
+import { AuthenticationHelper } from "../authentication-helper";
+import { CryptoHelper } from "../crypto-helper";
+
+/**
+ * Creates an ID token issued to the test client.
+ *
+ * @param claims - The other claims of the ID token.
+ *
+ * @returns The ID token.
+ */
+const createIdToken = (claims: Record<string, unknown>): string => createJwt({
+    aud: CLIENT_ID,
+    exp: now() + 3600,
+    iat: now(),
+    iss: ISSUER,
+    sub: "user",
+    ...claims
+});
+
+describe("AuthenticationHelper", () => {
+    let dataLayer: DataLayer<unknown>;
+    let cryptoUtils: TestCryptoUtils;
+    let helper: AuthenticationHelper<unknown>;
+
+    beforeEach(async () => {
+        dataLayer = await createDataLayer();
+        cryptoUtils = new TestCryptoUtils();
+        helper = new AuthenticationHelper(dataLayer, new CryptoHelper(cryptoUtils));
+        mockFetch({});
+    });
+
+    describe("at_hash", () => {
+        it("accepts an ID token with the hash of the access token", async () => {
+            const response: Response = jsonResponse({
+                access_token: "access-token",
+                id_token: createIdToken({ at_hash: getTokenHash("access-token") }),
+                token_type: "Bearer"
+            });
+
+            await expect(helper.handleTokenResponse(response)).resolves.toMatchObject({ accessToken: "access-token" });
+        });
+
+        it("rejects an ID token with the hash of another access token", async () => {
+            const response: Response = jsonResponse({
+                access_token: "access-token",
+                id_token: createIdToken({ at_hash: getTokenHash("other-access-token") }),
+                token_type: "Bearer"
+            });
+
+            await expect(helper.handleTokenResponse(response))
+                .rejects.toMatchObject({ code: "JS-AUTH_HELPER-HTR-IV03" });
+            expect(await dataLayer.getSessionData()).toBeNull();
+        });
+    });
+
+    describe("c_hash", () => {
+        it("accepts a front-channel ID token with the hash of the authorization code", async () => {
+            const idToken: string = createIdToken({ c_hash: getTokenHash("authorization-code"), nonce: "nonce" });
+
+            await expect(helper.validateFrontChannelIdToken(idToken, "authorization-code", "nonce"))
+                .resolves.toBe(true);
+        });
+
+        it("rejects a front-channel ID token without a c_hash", async () => {
+            const idToken: string = createIdToken({ nonce: "nonce" });
+
+            await expect(helper.validateFrontChannelIdToken(idToken, "authorization-code", "nonce"))
+                .rejects.toMatchObject({ code: "JS-AUTH_HELPER-VFCIT-IV02" });
+        });
+
+        it("rejects a front-channel ID token with the hash of another authorization code", async () => {
+            const idToken: string = createIdToken({ c_hash: getTokenHash("other-code"), nonce: "nonce" });
+
+            await expect(helper.validateFrontChannelIdToken(idToken, "authorization-code", "nonce"))
+                .rejects.toMatchObject({ code: "JS-AUTH_HELPER-VFCIT-IV02" });
+        });
+
+        it("rejects a front-channel ID token with a different nonce", async () => {
+            const idToken: string = createIdToken({ c_hash: getTokenHash("authorization-code"), nonce: "other" });
+
+            await expect(helper.validateFrontChannelIdToken(idToken, "authorization-code", "nonce"))
+                .rejects.toMatchObject({ code: "JS-AUTH_HELPER-VFCIT-IV01" });
+        });
+    });
+
+    describe("validateAuthorizationResponseToken", () => {
+        const createResponseToken = (claims?: Record<string, unknown>): string => createJwt({
+            aud: CLIENT_ID,
+            code: "authorization-code",
+            exp: now() + 60,
+            iss: ISSUER,
+            state: "state",
+            ...claims
+        });
+
+        it("returns the parameters of a valid authorization response", async () => {
+            await expect(helper.validateAuthorizationResponseToken(createResponseToken())).resolves.toEqual({
+                aud: CLIENT_ID,
+                code: "authorization-code",
+                iss: ISSUER,
+                state: "state"
+            });
+        });
+
+        it("rejects an authorization response with an invalid signature", async () => {
+            cryptoUtils.verifyJwt.mockResolvedValue(false);
+
+            await expect(helper.validateAuthorizationResponseToken(createResponseToken()))
+                .rejects.toMatchObject({ code: "JS-CRYPTO_HELPER-IVART-IV01" });
+        });
+
+        it("rejects an authorization response issued by another server", async () => {
+            await expect(helper.validateAuthorizationResponseToken(createResponseToken({ iss: "https://other.com" })))
+                .rejects.toMatchObject({ code: "JS-AUTH_HELPER-VART-IV01" });
+        });
+
+        it("rejects an authorization response issued to another client", async () => {
+            await expect(helper.validateAuthorizationResponseToken(createResponseToken({ aud: "other-client" })))
+                .rejects.toMatchObject({ code: "JS-AUTH_HELPER-VART-IV02" });
+        });
+
+        it("rejects an expired authorization response", async () => {
+            await expect(helper.validateAuthorizationResponseToken(createResponseToken({ exp: now() - 1 })))
+                .rejects.toMatchObject({ code: "JS-AUTH_HELPER-VART-IV03" });
+        });
+
+        it("decrypts an encrypted authorization response before validating it", async () => {
+            const jwe: string = createJwe();
+
+            cryptoUtils.decryptJwe.mockResolvedValue(createResponseToken());
+
+            await expect(helper.validateAuthorizationResponseToken(jwe))
+                .resolves.toMatchObject({ code: "authorization-code" });
+            expect(cryptoUtils.decryptJwe).toHaveBeenCalledWith(jwe, undefined);
+        });
+    });
+
+    describe("encrypted ID tokens", () => {
+        it("stores the signed ID token nested in an encrypted ID token", async () => {
+            const jwe: string = createJwe();
+            const idToken: string = createIdToken({});
+
+            await dataLayer.setConfigData({ idTokenDecryptionKeyID: "decryption-key" });
+            cryptoUtils.decryptJwe.mockResolvedValue(idToken);
+
+            await expect(helper.handleTokenResponse(jsonResponse({
+                access_token: "access-token",
+                id_token: jwe,
+                token_type: "Bearer"
+            }))).resolves.toMatchObject({ idToken });
+            expect(cryptoUtils.decryptJwe).toHaveBeenCalledWith(jwe, "decryption-key");
+            expect((await dataLayer.getSessionData()).id_token).toBe(idToken);
+        });
+
+        it("returns a signed ID token as it is", async () => {
+            const idToken: string = createIdToken({});
+
+            await expect(helper.decryptIdToken(idToken)).resolves.toBe(idToken);
+            expect(cryptoUtils.decryptJwe).not.toHaveBeenCalled();
+        });
+
+        it("rejects an encrypted ID token that doesn't contain a signed ID token", async () => {
+            cryptoUtils.decryptJwe.mockResolvedValue("{}");
+
+            await expect(helper.decryptIdToken(createJwe())).rejects.toMatchObject({ code: "JS-AUTH_HELPER-DIT-IV01" });
+        });
+    });
+
+    describe("client authentication", () => {
+        const TOKEN_ENDPOINT: string = ENDPOINTS.token_endpoint as string;
+
+        const useServer = async (
+            config: Partial<AuthClientConfig>,
+            supportedMethods?: TokenEndpointAuthMethod[]
+        ): Promise<void> => {
+            dataLayer = await createDataLayer(config, { token_endpoint_auth_methods_supported: supportedMethods });
+            helper = new AuthenticationHelper(dataLayer, new CryptoHelper(cryptoUtils));
+        };
+
+        it("only sends the client ID without a client secret", async () => {
+            await useServer({}, [ TokenEndpointAuthMethod.clientSecretBasic ]);
+
+            await expect(helper.getClientAuthentication(TOKEN_ENDPOINT)).resolves.toEqual({
+                headers: {},
+                params: { client_id: CLIENT_ID }
+            });
+        });
+
+        it("sends the client secret in the body using the client_secret_post method", async () => {
+            await useServer({
+                clientSecret: "secret",
+                tokenEndpointAuthMethod: TokenEndpointAuthMethod.clientSecretPost
+            });
+
+            await expect(helper.getClientAuthentication(TOKEN_ENDPOINT)).resolves.toEqual({
+                headers: {},
+                params: { client_id: CLIENT_ID, client_secret: "secret" }
+            });
+        });
+
+        it("sends the client credentials in the header using the client_secret_basic method", async () => {
+            await useServer({
+                clientSecret: "secret",
+                tokenEndpointAuthMethod: TokenEndpointAuthMethod.clientSecretBasic
+            });
+
+            await expect(helper.getClientAuthentication(TOKEN_ENDPOINT)).resolves.toEqual({
+                headers: { Authorization: `Basic ${ Buffer.from(`${ CLIENT_ID }:secret`).toString("base64") }` },
+                params: { client_id: CLIENT_ID }
+            });
+        });
+
+        it("sends a client assertion signed with the client secret using the client_secret_jwt method", async () => {
+            await useServer({
+                clientSecret: "secret",
+                tokenEndpointAuthMethod: TokenEndpointAuthMethod.clientSecretJwt
+            });
+
+            await expect(helper.getClientAuthentication(TOKEN_ENDPOINT)).resolves.toEqual({
+                headers: {},
+                params: {
+                    client_assertion: "client-assertion",
+                    client_assertion_type: "urn:ietf:params:oauth:client-assertion-type:jwt-bearer",
+                    client_id: CLIENT_ID
+                }
+            });
+            expect(cryptoUtils.signJwt).toHaveBeenCalledWith(
+                { alg: "HS256", typ: "JWT" },
+                expect.objectContaining({ aud: TOKEN_ENDPOINT, iss: CLIENT_ID, sub: CLIENT_ID }),
+                "secret"
+            );
+        });
+
+        it("prefers the client_secret_basic method advertised by the server", async () => {
+            await useServer({ clientSecret: "secret" }, [
+                TokenEndpointAuthMethod.clientSecretPost,
+                TokenEndpointAuthMethod.clientSecretJwt,
+                TokenEndpointAuthMethod.clientSecretBasic
+            ]);
+
+            await expect(helper.resolveTokenEndpointAuthMethod())
+                .resolves.toBe(TokenEndpointAuthMethod.clientSecretBasic);
+        });
+
+        it("prefers the client_secret_jwt method advertised by the server over client_secret_post", async () => {
+            await useServer({ clientSecret: "secret" }, [
+                TokenEndpointAuthMethod.clientSecretPost,
+                TokenEndpointAuthMethod.clientSecretJwt
+            ]);
+
+            await expect(helper.resolveTokenEndpointAuthMethod())
+                .resolves.toBe(TokenEndpointAuthMethod.clientSecretJwt);
+        });
+
+        it("skips an advertised method that the crypto utils can't perform", async () => {
+            Object.assign(cryptoUtils, { base64Encode: undefined });
+            await useServer({ clientSecret: "secret" }, [
+                TokenEndpointAuthMethod.clientSecretBasic,
+                TokenEndpointAuthMethod.clientSecretPost
+            ]);
+
+            await expect(helper.resolveTokenEndpointAuthMethod())
+                .resolves.toBe(TokenEndpointAuthMethod.clientSecretPost);
+        });
+
+        it("falls back to the client_secret_post method when the server advertises no other method", async () => {
+            await useServer({ clientSecret: "secret" });
+
+            await expect(helper.resolveTokenEndpointAuthMethod())
+                .resolves.toBe(TokenEndpointAuthMethod.clientSecretPost);
+        });
+    });
+
+    describe("validateLogoutToken", () => {
+        const createLogoutToken = (claims?: Record<string, unknown>): string => createJwt({
+            aud: CLIENT_ID,
+            events: { [ BACKCHANNEL_LOGOUT_EVENT ]: {} },
+            iat: now(),
+            iss: ISSUER,
+            jti: "logout-token",
+            sid: "session",
+            ...claims
+        });
+
+        it("accepts a valid logout token", async () => {
+            await expect(helper.validateLogoutToken(createLogoutToken())).resolves.toMatchObject({ sid: "session" });
+        });
+
+        it("rejects a logout token with an invalid signature", async () => {
+            cryptoUtils.verifyJwt.mockResolvedValue(false);
+
+            await expect(helper.validateLogoutToken(createLogoutToken()))
+                .rejects.toMatchObject({ code: "JS-CRYPTO_HELPER-IVLT-IV01" });
+        });
+
+        it("rejects a logout token issued by another server", async () => {
+            await expect(helper.validateLogoutToken(createLogoutToken({ iss: "https://other.com" })))
+                .rejects.toMatchObject({ code: "JS-AUTH_HELPER-VLT-IV01" });
+        });
+
+        it("rejects a logout token issued to another client", async () => {
+            await expect(helper.validateLogoutToken(createLogoutToken({ aud: [ "other-client" ] })))
+                .rejects.toMatchObject({ code: "JS-AUTH_HELPER-VLT-IV02" });
+        });
+
+        it("rejects a logout token issued in the future", async () => {
+            await expect(helper.validateLogoutToken(createLogoutToken({ iat: now() + 60 })))
+                .rejects.toMatchObject({ code: "JS-AUTH_HELPER-VLT-IV03" });
+        });
+
+        it("rejects a logout token that is too old", async () => {
+            await expect(helper.validateLogoutToken(createLogoutToken({ iat: now() - LOGOUT_TOKEN_MAX_AGE - 1 })))
+                .rejects.toMatchObject({ code: "JS-AUTH_HELPER-VLT-IV03" });
+        });
+
+        it("rejects a logout token without a token ID", async () => {
+            await expect(helper.validateLogoutToken(createLogoutToken({ jti: undefined })))
+                .rejects.toMatchObject({ code: "JS-AUTH_HELPER-VLT-IV04" });
+        });
+
+        it("rejects a replayed logout token", async () => {
+            await helper.validateLogoutToken(createLogoutToken());
+
+            await expect(helper.validateLogoutToken(createLogoutToken()))
+                .rejects.toMatchObject({ code: "JS-AUTH_HELPER-VLT-IV05" });
+        });
+
+        it("rejects a logout token without the back-channel logout event", async () => {
+            await expect(helper.validateLogoutToken(createLogoutToken({ events: {} })))
+                .rejects.toMatchObject({ code: "JS-AUTH_HELPER-VLT-IV06" });
+        });
+
+        it("rejects a logout token with a nonce", async () => {
+            await expect(helper.validateLogoutToken(createLogoutToken({ nonce: "nonce" })))
+                .rejects.toMatchObject({ code: "JS-AUTH_HELPER-VLT-IV07" });
+        });
+
+        it("rejects a logout token without a session ID or a subject", async () => {
+            await expect(helper.validateLogoutToken(createLogoutToken({ sid: undefined })))
+                .rejects.toMatchObject({ code: "JS-AUTH_HELPER-VLT-IV08" });
+        });
+    });
+});
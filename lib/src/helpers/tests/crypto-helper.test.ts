@@ -0,0 +1,51 @@
+/**
+ * Copyright (c) 2026, WSO2 LLC. (https://www.wso2.com). All Rights Reserved.
+ *
+ * WSO2 LLC. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import { TestCryptoUtils, createJwe, createJwt } from "../../tests/test-utils";
+import { CryptoHelper } from "../crypto-helper";
+
+describe("CryptoHelper", () => {
+    let cryptoHelper: CryptoHelper<unknown>;
+
+    beforeEach(() => {
+        cryptoHelper = new CryptoHelper(new TestCryptoUtils());
+    });
+
+    describe("decodeIDToken", () => {
+        it("decodes the payload of a signed ID token", () => {
+            expect(cryptoHelper.decodeIDToken(createJwt({ sub: "user" }))).toEqual({ sub: "user" });
+        });
+
+        it("rejects an encrypted ID token", () => {
+            expect(() => cryptoHelper.decodeIDToken(createJwe()))
+                .toThrow(expect.objectContaining({ code: "JS-CRYPTO_UTIL-DIT-IV02" }));
+        });
+
+        it("rejects a missing ID token", () => {
+            expect(() => cryptoHelper.decodeIDToken(undefined as unknown as string))
+                .toThrow(expect.objectContaining({ code: "JS-CRYPTO_UTIL-DIT-IV01" }));
+        });
+    });
+
+    describe("isJwe", () => {
+        it("distinguishes encrypted tokens from signed tokens", () => {
+            expect(cryptoHelper.isJwe(createJwe())).toBe(true);
+            expect(cryptoHelper.isJwe(createJwt({}))).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,51 @@
+/**
+ * Copyright (c) 2026, WSO2 LLC. (https://www.wso2.com). All Rights Reserved.
+ *
+ * WSO2 LLC. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+/**
+ * Interface of an authorization details object as specified by RFC 9396.
+ */
+export interface AuthorizationDetail {
+    /**
+     * The type of the authorization details, which determines the other attributes.
+     */
+    type: string;
+    /**
+     * The locations of the resources or the resource servers.
+     */
+    locations?: string[];
+    /**
+     * The kinds of actions to be taken at the resource.
+     */
+    actions?: string[];
+    /**
+     * The kinds of data being requested from the resource.
+     */
+    datatypes?: string[];
+    /**
+     * A specific resource available at the API.
+     */
+    identifier?: string;
+    /**
+     * The types or levels of privilege being requested at the resource.
+     */
+    privileges?: string[];
+    /**
+     * Other attributes defined by the type, such as the amount of a payment.
+     */
+    [ key: string ]: any;
+}
@@ -16,11 +16,49 @@
  * under the License.
  */
 
+import { AuthorizationDetail } from "./authorization-details";
+import { ClaimsRequest } from "./claims-request";
+
 export type AuthorizationURLParams = Omit<GetAuthURLConfig, "forceInit">;
 
 export interface StrictGetAuthURLConfig {
     fidp?: string;
     forceInit?: boolean;
+    /**
+     * The fine-grained permissions to be requested as specified by RFC 9396.
+     */
+    authorizationDetails?: AuthorizationDetail[];
+    /**
+     * The resource indicators of the APIs the access token is requested for as specified by RFC 8707.
+     */
+    resource?: string | string[];
+    /**
+     * The requested Authentication Context Class Reference values in the order of preference.
+     */
+    acrValues?: string[];
+    /**
+     * The allowable elapsed time in seconds since the user was last actively authenticated.
+     */
+    maxAge?: number;
+    /**
+     * The individual claims to be returned in the ID token and by the UserInfo endpoint.
+     */
+    claims?: ClaimsRequest;
 }
 
-export type GetAuthURLConfig = StrictGetAuthURLConfig & Record<string, string | boolean>;
+export type GetAuthURLConfig = StrictGetAuthURLConfig
+    & Record<string, string | string[] | boolean | number | AuthorizationDetail[] | ClaimsRequest>;
+
+/**
+ * Interface of the response returned by the pushed authorization request endpoint.
+ */
+export interface PushedAuthorizationResponse {
+    /**
+     * The request URI corresponding to the pushed authorization request.
+     */
+    request_uri: string;
+    /**
+     * The lifetime of the request URI in seconds.
+     */
+    expires_in: number;
+}
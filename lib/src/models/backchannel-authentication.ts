@@ -0,0 +1,75 @@
+/**
+ * Copyright (c) 2026, WSO2 LLC. (https://www.wso2.com). All Rights Reserved.
+ *
+ * WSO2 LLC. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+/**
+ * Interface of the config used to send a backchannel authentication request.
+ */
+export interface BackchannelAuthenticationConfig {
+    /**
+     * A hint that identifies the end-user, such as the username or the email address.
+     */
+    loginHint?: string;
+    /**
+     * A token that identifies the end-user.
+     */
+    loginHintToken?: string;
+    /**
+     * An ID token previously issued to the client, identifying the end-user.
+     */
+    idTokenHint?: string;
+    /**
+     * A human-readable message displayed on both the consumption device and the authentication device.
+     */
+    bindingMessage?: string;
+    /**
+     * A secret code known only to the user, used to prevent unsolicited authentication requests.
+     */
+    userCode?: string;
+    /**
+     * The requested lifetime in seconds of the authentication request.
+     */
+    requestedExpiry?: number;
+    /**
+     * The scopes to be requested. The scopes in the config are used if this is not passed.
+     */
+    scope?: string[];
+}
+
+/**
+ * Interface of the response returned by the backchannel authentication endpoint.
+ */
+export interface BackchannelAuthenticationResponse {
+    /**
+     * The identifier of the authentication request.
+     */
+    authReqId: string;
+    /**
+     * The lifetime in seconds of the `auth_req_id`.
+     */
+    expiresIn: number;
+    /**
+     * The minimum amount of time in seconds that the client should wait between polling requests.
+     */
+    interval: number;
+}
+
+export interface RawBackchannelAuthenticationResponse {
+    auth_req_id: string;
+    expires_in: number;
+    interval?: number;
+}
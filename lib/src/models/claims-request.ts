@@ -0,0 +1,70 @@
+/**
+ * Copyright (c) 2026, WSO2 LLC. (https://www.wso2.com). All Rights Reserved.
+ *
+ * WSO2 LLC. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+/**
+ * The value of a claim as specified by the OpenID Connect `claims` request parameter.
+ */
+export type ClaimValue = string | number | boolean;
+
+/**
+ * Interface of the constraints on the value of a requested claim.
+ */
+export interface ClaimValueConstraint {
+    /**
+     * The value the claim is requested to have.
+     */
+    value?: ClaimValue;
+    /**
+     * The set of values the claim is requested to have one of, in the order of preference.
+     */
+    values?: ClaimValue[];
+}
+
+/**
+ * Interface of the request for an individual claim.
+ */
+export interface ClaimRequest extends ClaimValueConstraint {
+    /**
+     * Whether the claim is required for the authorization to succeed.
+     */
+    essential?: boolean;
+}
+
+/**
+ * The requested claims keyed by the claim name. A voluntary claim without constraints is requested using `null`.
+ */
+export type RequestedClaims = Record<string, ClaimRequest | null>;
+
+/**
+ * Interface of the OpenID Connect `claims` request parameter.
+ */
+export interface ClaimsRequest {
+    /**
+     * The claims to be returned in the ID token.
+     */
+    id_token?: RequestedClaims;
+    /**
+     * The claims to be returned by the UserInfo endpoint.
+     */
+    userinfo?: RequestedClaims;
+}
+
+/**
+ * The members of the `claims` request parameter.
+ */
+export type ClaimsRequestTarget = keyof ClaimsRequest;
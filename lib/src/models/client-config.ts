@@ -17,7 +17,7 @@
  */
 
 import { OIDCEndpoints } from "./oidc-provider-meta-data";
-import { ResponseMode } from "../constants";
+import { ResponseMode, ResponseType, TokenEndpointAuthMethod } from "../constants";
 
 export interface DefaultAuthClientConfig {
   signInRedirectURL: string;
@@ -25,9 +25,46 @@ export interface DefaultAuthClientConfig {
   clientHost?: string;
   clientID: string;
   clientSecret?: string;
+  /**
+  * The method used to authenticate the client at the token endpoint. If not provided and there is a client secret,
+  * `client_secret_basic` or `client_secret_jwt` is used if advertised in `token_endpoint_auth_methods_supported`,
+  * and `client_secret_post` otherwise. If there is no client secret, `none` is used.
+  */
+  tokenEndpointAuthMethod?: TokenEndpointAuthMethod;
+  /**
+  * The algorithm used to sign the client assertion when the `client_secret_jwt` or `private_key_jwt`
+  * method is used. Defaults to `HS256` and `RS256` respectively.
+  */
+  tokenEndpointAuthSigningAlgorithm?: string;
   enablePKCE?: boolean;
+  /**
+  * Specifies if the authorization request parameters should be pushed to the
+  * pushed authorization request endpoint (RFC 9126) instead of being sent in the authorization URL.
+  */
+  enablePAR?: boolean;
+  /**
+  * Specifies if the authorization request parameters should be sent as a signed request object (RFC 9101).
+  * If pushed authorization requests are enabled, the request object is pushed and referenced by the `request_uri`.
+  */
+  enableRequestObject?: boolean;
+  /**
+  * The algorithm used to sign the request object. Defaults to `RS256`.
+  */
+  requestObjectSigningAlgorithm?: string;
+  /**
+  * Specifies if the tokens should be sender-constrained using DPoP (RFC 9449).
+  */
+  enableDPoP?: boolean;
+  /**
+  * The algorithm used to sign DPoP proofs. Defaults to `ES256`.
+  */
+  dpopSigningAlgorithm?: string;
   prompt?: string;
   responseMode?: ResponseMode;
+  /**
+  * The response type of the authorization request. Defaults to `code`.
+  */
+  responseType?: ResponseType;
   scope?: string[];
   validateIDToken?: boolean;
   /**
@@ -35,6 +72,11 @@ export interface DefaultAuthClientConfig {
   */
   clockTolerance?: number;
   /**
+  * The ID of the key used to decrypt the ID tokens encrypted by the server. The key itself is held by the
+  * `CryptoUtils` implementation.
+  */
+  idTokenDecryptionKeyID?: string;
+  /**
   * Specifies if cookies should be sent with access-token requests, refresh-token requests,
   * custom-grant requests, etc.
   *
@@ -67,3 +109,11 @@ export type StrictAuthClientConfig =
   | ExplicitAuthClientConfig;
 
 export type AuthClientConfig<T = unknown> = StrictAuthClientConfig & T;
+
+/**
+ * Interface of the headers and the body parameters used to authenticate the client.
+ */
+export interface ClientAuthentication {
+  headers: Record<string, string>;
+  params: Record<string, string>;
+}
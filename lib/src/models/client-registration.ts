@@ -0,0 +1,89 @@
+/**
+ * Copyright (c) 2026, WSO2 LLC. (https://www.wso2.com). All Rights Reserved.
+ *
+ * WSO2 LLC. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+/**
+ * Interface of the client metadata sent to the client registration endpoint.
+ */
+export interface ClientMetadata {
+    /**
+     * Array of redirection URIs for use in redirect-based flows.
+     */
+    redirect_uris?: string[];
+    /**
+     * Array of OAuth 2.0 grant types that the client may use.
+     */
+    grant_types?: string[];
+    /**
+     * Array of OAuth 2.0 response types that the client may use.
+     */
+    response_types?: string[];
+    /**
+     * Human-readable name of the client.
+     */
+    client_name?: string;
+    /**
+     * The requested authentication method for the token endpoint.
+     */
+    token_endpoint_auth_method?: string;
+    /**
+     * Space-separated list of scopes that the client can use when requesting access tokens.
+     */
+    scope?: string;
+    /**
+     * URL referencing the JSON Web Key Set of the client.
+     */
+    jwks_uri?: string;
+    /**
+     * Array of redirection URIs to which the user may be redirected after signing out.
+     */
+    post_logout_redirect_uris?: string[];
+    /**
+     * Any other client metadata.
+     */
+    [ key: string ]: any;
+}
+
+/**
+ * Interface of the response returned by the client registration endpoint.
+ */
+export interface ClientRegistrationResponse extends ClientMetadata {
+    /**
+     * The client identifier.
+     */
+    client_id: string;
+    /**
+     * The client secret.
+     */
+    client_secret?: string;
+    /**
+     * The time at which the client identifier was issued, in seconds since the epoch.
+     */
+    client_id_issued_at?: number;
+    /**
+     * The time at which the client secret expires, in seconds since the epoch. 0 if it never expires.
+     */
+    client_secret_expires_at?: number;
+    /**
+     * The access token used to read, update and delete the registration.
+     */
+    registration_access_token?: string;
+    /**
+     * The URL used to read, update and delete the registration.
+     */
+    registration_client_uri?: string;
+}
@@ -28,6 +28,36 @@ export interface JWKInterface {
     n: string;
 }
 
+/**
+ * JWT Header Model
+ */
+export interface JWTHeader {
+    alg: string;
+    typ?: string;
+    kid?: string;
+    [ key: string ]: any;
+}
+
+/**
+ * JWT Payload Model
+ */
+export type JWTPayload = Record<string, any>;
+
+/**
+ * Asymmetric Key Pair Model
+ */
+export interface KeyPair {
+    /**
+     * The private key. This is an opaque value that is only interpreted by the `CryptoUtils` implementation.
+     * It can either be the serialized key or a reference to a key kept in a key store.
+     */
+    privateKey: string;
+    /**
+     * The public key in the JWK format.
+     */
+    publicKey: Record<string, string>;
+}
+
 /**
  * The interface that defines the CryptoUtils methods.
  *
@@ -52,6 +82,17 @@ export interface CryptoUtils<T = any> {
      */
     base64URLDecode(value: string): string;
 
+    /**
+     * Encode the provided string in base64 format.
+     *
+     * This is required only if the `client_secret_basic` client authentication method is used.
+     *
+     * @param value - String to be encoded.
+     *
+     * @returns Encoded string.
+     */
+    base64Encode?(value: string): string;
+
     /**
      * Generate random bytes.
      *
@@ -70,6 +111,18 @@ export interface CryptoUtils<T = any> {
      */
     hashSha256(data: string): T;
 
+    /**
+     * Hash the provided data using the provided algorithm.
+     *
+     * This is required only if ID tokens signed with algorithms that use SHA-384 or SHA-512 are validated.
+     *
+     * @param data - Data to be hashed.
+     * @param algorithm - The hash algorithm. Ex: `SHA-384`.
+     *
+     * @returns Hashed data.
+     */
+    hash?(data: string, algorithm: string): T;
+
     /**
      * Verify the provided JWT.
      *
@@ -78,7 +131,7 @@ export interface CryptoUtils<T = any> {
      * @param algorithms - Algorithms to be used for verification.
      * @param clientID - Client ID to be used for verification.
      * @param issuer - Issuer to be used for verification.
-     * @param subject - Subject to be used for verification.
+     * @param subject - Subject to be used for verification. The subject is not verified if this is not provided.
      * @param clockTolerance - Clock tolerance to be used for verification.
      *
      * @returns True if the ID Token is valid.
@@ -91,7 +144,45 @@ export interface CryptoUtils<T = any> {
         algorithms: string[],
         clientID: string,
         issuer: string,
-        subject: string,
+        subject?: string,
         clockTolerance?: number
     ): Promise<boolean>;
+
+    /**
+     * Decrypt the provided JWE using the decryption key of the client.
+     *
+     * This is required only if encrypted ID tokens or encrypted JWT secured authorization responses are used.
+     *
+     * @param jwe - The JWE in the compact serialization format.
+     * @param keyID - (Optional) The ID of the decryption key configured on the client. If not provided, the key
+     * identified by the `kid` in the JWE header or the default decryption key of the client should be used.
+     *
+     * @returns The decrypted content, which is a JWS in the case of a nested JWT.
+     */
+    decryptJwe?(jwe: string, keyID?: string): Promise<string>;
+
+    /**
+     * Sign the provided JWT header and payload.
+     *
+     * This is required only if signed request objects, DPoP or JWT client authentication methods are used.
+     *
+     * @param header - Header of the JWT. The `alg` attribute specifies the signing algorithm.
+     * @param payload - Payload of the JWT.
+     * @param key - (Optional) The private key of a key pair generated by the `generateKeyPair` method, or the
+     * client secret when an HMAC algorithm is used. If not provided, the signing key of the client should be used.
+     *
+     * @returns The signed JWT in the compact serialization format.
+     */
+    signJwt?(header: JWTHeader, payload: JWTPayload, key?: string): Promise<string>;
+
+    /**
+     * Generate an asymmetric key pair.
+     *
+     * This is required only if DPoP is used.
+     *
+     * @param algorithm - The JWS algorithm the key pair will be used with. Ex: `ES256`.
+     *
+     * @returns The generated key pair.
+     */
+    generateKeyPair?(algorithm: string): Promise<KeyPair>;
 }
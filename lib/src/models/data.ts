@@ -16,7 +16,7 @@
  * under the License.
  */
 
-import { OIDCEndpoints } from ".";
+import { AuthorizationDetail, KeyPair, OIDCEndpoints, RequestedClaims, ResourceAccessToken } from ".";
 
 export type StoreValue = string | string[] | boolean | number | OIDCEndpoints;
 export type TemporaryData = { [ key: string ]: StoreValue; };
@@ -30,6 +30,20 @@ export interface SessionData {
     token_type: string;
     session_state: string;
     created_at: number;
+    dpop_key_pair?: KeyPair;
+    dpop_nonce?: string;
+    authorization_details?: AuthorizationDetail[];
+    resource_access_tokens?: Record<string, ResourceAccessToken>;
+    userinfo_claims?: RequestedClaims;
+}
+
+/**
+ * The user IDs of the stored sessions indexed by the `sid` and the `sub` claims of their ID tokens.
+ * The session of the default user is indexed using an empty string.
+ */
+export interface SessionIndex {
+    sid: Record<string, string[]>;
+    sub: Record<string, string[]>;
 }
 
 export interface Store {
@@ -0,0 +1,56 @@
+/**
+ * Copyright (c) 2026, WSO2 LLC. (https://www.wso2.com). All Rights Reserved.
+ *
+ * WSO2 LLC. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+/**
+ * Interface of the response returned by the device authorization endpoint.
+ */
+export interface DeviceAuthorizationResponse {
+    /**
+     * The device verification code.
+     */
+    deviceCode: string;
+    /**
+     * The end-user verification code.
+     */
+    userCode: string;
+    /**
+     * The end-user verification URI on the authorization server.
+     */
+    verificationUri: string;
+    /**
+     * The verification URI that includes the `user_code`.
+     */
+    verificationUriComplete?: string;
+    /**
+     * The lifetime in seconds of the `device_code` and `user_code`.
+     */
+    expiresIn: number;
+    /**
+     * The minimum amount of time in seconds that the client should wait between polling requests.
+     */
+    interval: number;
+}
+
+export interface RawDeviceAuthorizationResponse {
+    device_code: string;
+    user_code: string;
+    verification_uri: string;
+    verification_uri_complete?: string;
+    expires_in: number;
+    interval?: number;
+}
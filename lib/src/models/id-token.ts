@@ -16,6 +16,8 @@
  * under the License.
  */
 
+import { RequestedClaims } from "./claims-request";
+
 /**
  * Interface for the payload of a Decoded ID Token.
  */
@@ -52,3 +54,59 @@ export interface DecodedIDTokenPayload extends StrictDecodedIDTokenPayload {
      */
     [ any: string ]: any;
 }
+
+/**
+ * Interface of the authentication requirements sent in an authorization request that the ID token must satisfy.
+ */
+export interface AuthenticationRequirements {
+    /**
+     * The requested Authentication Context Class Reference values. The `acr` claim must be one of them.
+     */
+    acrValues?: string[];
+    /**
+     * The maximum authentication age in seconds. The `auth_time` claim must be within this age.
+     */
+    maxAge?: number;
+    /**
+     * The claims requested to be returned in the ID token. The essential claims must be satisfied.
+     */
+    claims?: RequestedClaims;
+}
+
+/**
+ * Interface for the payload of a decoded back-channel logout token.
+ */
+export interface DecodedLogoutTokenPayload {
+    /**
+     * The issuer identifier for the issuer of the token.
+     */
+    iss: string;
+    /**
+     * The audience for which this token is intended.
+     */
+    aud: string | string[];
+    /**
+     * The time at which the token was issued, in seconds since the epoch.
+     */
+    iat: number;
+    /**
+     * The unique identifier of the token.
+     */
+    jti: string;
+    /**
+     * The events of the token, which contain the back-channel logout event.
+     */
+    events: Record<string, Record<string, unknown>>;
+    /**
+     * The subject whose sessions should be logged out.
+     */
+    sub?: string;
+    /**
+     * The ID of the OP session that should be logged out.
+     */
+    sid?: string;
+    /**
+     * The expiry time of the token, in seconds since the epoch.
+     */
+    exp?: number;
+}
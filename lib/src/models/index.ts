@@ -23,6 +23,15 @@ export * from "./token";
 export * from "./custom-grant";
 export * from "./id-token";
 export * from "./authorization-url";
+export * from "./authorization-details";
+export * from "./claims-request";
 export * from "./user";
 export * from "./crypto";
 export * from "./fetch";
+export * from "./device-authorization";
+export * from "./token-exchange";
+export * from "./introspection";
+export * from "./backchannel-authentication";
+export * from "./client-registration";
+export * from "./session-monitor";
+export * from "./sign-out";
@@ -0,0 +1,61 @@
+/**
+ * Copyright (c) 2026, WSO2 LLC. (https://www.wso2.com). All Rights Reserved.
+ *
+ * WSO2 LLC. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+/**
+ * Interface of the response returned by the introspection endpoint.
+ */
+export interface IntrospectionResponse {
+    /**
+     * Specifies if the token is currently active.
+     */
+    active: boolean;
+    /**
+     * The scopes associated with the token.
+     */
+    scope?: string;
+    /**
+     * The time at which the token expires, in seconds since the epoch.
+     */
+    exp?: number;
+    /**
+     * The subject of the token.
+     */
+    sub?: string;
+    /**
+     * The client ID of the client that requested the token.
+     */
+    clientId?: string;
+    /**
+     * The username of the resource owner who authorized the token.
+     */
+    username?: string;
+    /**
+     * The type of the token.
+     */
+    tokenType?: string;
+}
+
+export interface RawIntrospectionResponse {
+    active: boolean;
+    scope?: string;
+    exp?: number;
+    sub?: string;
+    client_id?: string;
+    username?: string;
+    token_type?: string;
+}
@@ -244,6 +244,57 @@ export interface OIDCProviderMetaData {
      * identify the RP session with the OP.
      */
     backchannel_logout_session_supported?: boolean;
+    /**
+     * URL of the authorization server's pushed authorization request endpoint.
+     */
+    pushed_authorization_request_endpoint?: string;
+    /**
+     * Boolean parameter indicating whether the authorization server accepts authorization request data only
+     * via the pushed authorization request method. If omitted, the default value is false.
+     */
+    require_pushed_authorization_requests?: boolean;
+    /**
+     * URL of the authorization server's device authorization endpoint.
+     */
+    device_authorization_endpoint?: string;
+    /**
+     * URL of the OP's backchannel authentication endpoint.
+     */
+    backchannel_authentication_endpoint?: string;
+    /**
+     * JSON array containing one or more of the CIBA token delivery modes (poll, ping and push) supported by the OP.
+     */
+    backchannel_token_delivery_modes_supported?: string[];
+    /**
+     * JSON array containing a list of the JWS signing algorithms supported by the OP for signed authentication
+     * requests.
+     */
+    backchannel_authentication_request_signing_alg_values_supported?: string[];
+    /**
+     * Boolean value specifying whether the OP supports the use of the user_code parameter. If omitted, the
+     * default value is false.
+     */
+    backchannel_user_code_parameter_supported?: boolean;
+    /**
+     * Boolean parameter indicating whether the authorization server provides the iss parameter in the
+     * authorization response. If omitted, the default value is false.
+     */
+    authorization_response_iss_parameter_supported?: boolean;
+    /**
+     * JSON array containing a list of the JWS algorithms supported by the authorization server for signing
+     * JWT secured authorization responses.
+     */
+    authorization_signing_alg_values_supported?: string[];
+    /**
+     * JSON array containing a list of the JWE algorithms supported by the authorization server for encrypting
+     * JWT secured authorization responses.
+     */
+    authorization_encryption_alg_values_supported?: string[];
+    /**
+     * JSON array containing a list of the JWE encryption methods supported by the authorization server for
+     * encrypting JWT secured authorization responses.
+     */
+    authorization_encryption_enc_values_supported?: string[];
 }
 
 export interface OIDCEndpointsInternal {
@@ -257,6 +308,9 @@ export interface OIDCEndpointsInternal {
     check_session_iframe?: string;
     end_session_endpoint?: string;
     issuer?: string;
+    pushed_authorization_request_endpoint?: string;
+    device_authorization_endpoint?: string;
+    backchannel_authentication_endpoint?: string;
 }
 export interface OIDCEndpoints {
     authorizationEndpoint: string;
@@ -269,4 +323,7 @@ export interface OIDCEndpoints {
     checkSessionIframe: string;
     endSessionEndpoint: string;
     issuer: string;
+    pushedAuthorizationRequestEndpoint?: string;
+    deviceAuthorizationEndpoint?: string;
+    backchannelAuthenticationEndpoint?: string;
 }
@@ -0,0 +1,77 @@
+/**
+ * Copyright (c) 2026, WSO2 LLC. (https://www.wso2.com). All Rights Reserved.
+ *
+ * WSO2 LLC. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import { AuthorizationURLParams } from "./authorization-url";
+import { SessionStatus } from "../constants";
+import { AsgardeoAuthException } from "../exception";
+
+/**
+ * Interface of the transport used to communicate with the OP iframe loaded from the `check_session_iframe` endpoint.
+ */
+export interface SessionMonitorTransport {
+    /**
+     * Post the message to the OP iframe and resolve with the response of the OP iframe.
+     *
+     * The OP iframe should be loaded from the passed URL and the message should be posted with the origin of
+     * that URL as the target origin.
+     *
+     * @param message - The message to be posted, which is the client ID and the session state separated by a space.
+     * @param checkSessionIframe - The URL of the `check_session_iframe` endpoint.
+     *
+     * @returns The response of the OP iframe, which is either `changed`, `unchanged` or `error`.
+     */
+    postMessage(message: string, checkSessionIframe: string): Promise<string>;
+}
+
+/**
+ * Interface of the session monitor config.
+ */
+export interface SessionMonitorConfig {
+    /**
+     * The interval in seconds between session status checks.
+     */
+    interval?: number;
+    /**
+     * The authorization URL params to be sent with the `prompt=none` re-authentication request.
+     */
+    reauthenticationParams?: AuthorizationURLParams;
+    /**
+     * A unique ID of the user whose session is monitored.
+     */
+    userID?: string;
+}
+
+/**
+ * Interface of the event passed to the subscribers of a session monitor.
+ */
+export interface SessionMonitorEvent {
+    /**
+     * The status of the session at the OP.
+     */
+    status: SessionStatus;
+    /**
+     * The `prompt=none` authorization URL to be used to re-authenticate the user when the session has changed.
+     */
+    reauthenticationURL?: string;
+    /**
+     * The error that occurred while checking the session.
+     */
+    error?: AsgardeoAuthException;
+}
+
+export type SessionMonitorSubscriber = (event: SessionMonitorEvent) => void;
@@ -0,0 +1,57 @@
+/**
+ * Copyright (c) 2026, WSO2 LLC. (https://www.wso2.com). All Rights Reserved.
+ *
+ * WSO2 LLC. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+/**
+ * Interface of the config used to build the sign-out URL.
+ */
+export interface SignOutURLConfig {
+    /**
+     * A hint about the user who is signing out.
+     */
+    logoutHint?: string;
+    /**
+     * The URL to which the user should be redirected after signing out. Overrides the `signOutRedirectURL`.
+     */
+    postLogoutRedirectURI?: string;
+    /**
+     * The application state to be returned by the `handleSignOutCallback` method after the sign-out.
+     */
+    state?: string;
+    /**
+     * The preferred languages of the user for the sign-out page.
+     */
+    uiLocales?: string[];
+}
+
+/**
+ * Interface of the result of a verified sign-out callback.
+ */
+export interface SignOutCallbackResponse {
+    /**
+     * The application state passed when building the sign-out URL.
+     */
+    state?: string;
+}
+
+/**
+ * Interface of the sign-out state stored while the user is redirected to the sign-out endpoint.
+ */
+export interface SignOutState {
+    state: string;
+    appState?: string;
+}
@@ -0,0 +1,84 @@
+/**
+ * Copyright (c) 2026, WSO2 LLC. (https://www.wso2.com). All Rights Reserved.
+ *
+ * WSO2 LLC. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+/**
+ * Interface of the config used to exchange a token.
+ */
+export interface TokenExchangeConfig {
+    /**
+     * The token that represents the identity of the party on behalf of whom the request is made.
+     */
+    subjectToken: string;
+    /**
+     * The type of the subject token.
+     */
+    subjectTokenType: string;
+    /**
+     * The token that represents the identity of the acting party.
+     */
+    actorToken?: string;
+    /**
+     * The type of the actor token. This is required when an actor token is passed.
+     */
+    actorTokenType?: string;
+    /**
+     * The logical name of the target service where the client intends to use the requested token.
+     */
+    audience?: string;
+    /**
+     * The URI of the target service or resource where the client intends to use the requested token.
+     */
+    resource?: string;
+    /**
+     * The scopes of the requested token.
+     */
+    scope?: string[];
+    /**
+     * The type of the requested token.
+     */
+    requestedTokenType?: string;
+    /**
+     * Specifies if the issued token should replace the tokens of the current session.
+     */
+    storeSession?: boolean;
+    /**
+     * The token endpoint to be used instead of the one in the OIDC provider meta data.
+     */
+    tokenEndpoint?: string;
+}
+
+/**
+ * Interface of the response of a token exchange request.
+ */
+export interface TokenExchangeResponse {
+    accessToken: string;
+    issuedTokenType: string;
+    tokenType: string;
+    expiresIn?: string;
+    scope?: string;
+    refreshToken?: string;
+}
+
+export interface RawTokenExchangeResponse {
+    access_token: string;
+    issued_token_type: string;
+    token_type: string;
+    expires_in?: string;
+    scope?: string;
+    refresh_token?: string;
+}
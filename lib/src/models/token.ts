@@ -16,6 +16,8 @@
  * under the License.
  */
 
+import { AuthorizationDetail } from "./authorization-details";
+
 /**
  * Interface of the OAuth2/OIDC tokens.
  */
@@ -27,6 +29,43 @@ export interface TokenResponse {
     refreshToken: string;
     tokenType: string;
     createdAt: number;
+    authorizationDetails?: AuthorizationDetail[];
+}
+
+/**
+ * Interface of the additional parameters of a token request.
+ */
+export interface TokenRequestConfig {
+    /**
+     * The fine-grained permissions to be requested as specified by RFC 9396.
+     */
+    authorizationDetails?: AuthorizationDetail[];
+    /**
+     * The resource indicators of the APIs the access token is requested for as specified by RFC 8707.
+     */
+    resource?: string[];
+}
+
+/**
+ * Interface of an access token obtained for a specific resource.
+ */
+export interface ResourceAccessToken {
+    access_token: string;
+    expires_in: string;
+    scope: string;
+    token_type: string;
+    created_at: number;
+}
+
+/**
+ * Interface of the tokens obtained using the client credentials grant.
+ */
+export interface ClientCredentialsTokenResponse {
+    accessToken: string;
+    expiresIn: string;
+    scope: string;
+    tokenType: string;
+    createdAt: number;
 }
 
 export interface RawTokenResponse {
@@ -37,4 +76,5 @@ export interface RawTokenResponse {
     refresh_token: string;
     token_type: string;
     created_at: number;
+    authorization_details?: AuthorizationDetail[];
 }
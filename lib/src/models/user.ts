@@ -48,12 +48,38 @@ export interface BasicUserInfo {
      * The `uid` corresponding to the user who the ID token belongs to.
      */
     sub?: string;
+    /**
+     * The Authentication Context Class Reference satisfied by the authentication.
+     */
+    acr?: string;
+    /**
+     * The Authentication Methods References used in the authentication.
+     */
+    amr?: string[];
+    /**
+     * The time at which the user was authenticated, in seconds since the epoch.
+     */
+    authTime?: number;
     /**
      * Any other attributes retrieved from teh `id_token`.
      */
     [ key: string ]: any;
 }
 
+/**
+ * Interface of the claims returned by the UserInfo endpoint.
+ */
+export interface UserInfoResponse {
+    /**
+     * The `uid` corresponding to the user.
+     */
+    sub: string;
+    /**
+     * The other claims of the user.
+     */
+    [ key: string ]: any;
+}
+
 /**
  * Interface of the authenticated user.
  */
@@ -83,5 +109,17 @@ export interface AuthenticatedUserInfo {
      * Authenticated user's username.
      */
     username: string;
+    /**
+     * The Authentication Context Class Reference satisfied by the authentication.
+     */
+    acr?: string;
+    /**
+     * The Authentication Methods References used in the authentication.
+     */
+    amr?: string[];
+    /**
+     * The time at which the user was authenticated, in seconds since the epoch.
+     */
+    authTime?: number;
     [key: string]: any;
 }
@@ -25,6 +25,7 @@ export * from "./constants/data";
 export * from "./constants/parameters";
 export * from "./constants/scopes";
 export * from "./helpers/crypto-helper";
+export * from "./helpers/session-monitor";
 export * from "./utils";
 export * from "./exception";
 export * from "./data";
@@ -0,0 +1,223 @@
+/**
+ * Copyright (c) 2026, WSO2 LLC. (https://www.wso2.com). All Rights Reserved.
+ *
+ * WSO2 LLC. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { ResponseMode } from "../constants";
+import { DataLayer } from "../data";
+import { AuthClientConfig, CryptoUtils, JWKInterface, OIDCProviderMetaData, Store } from "../models";
+
+export const CLIENT_ID: string = "test-client";
+export const ISSUER: string = "https://localhost:9443/oauth2/token";
+export const KEY_ID: string = "test-key";
+
+export const ENDPOINTS: Partial<OIDCProviderMetaData> = {
+    authorization_endpoint: "https://localhost:9443/oauth2/authorize",
+    check_session_iframe: "https://localhost:9443/oidc/checksession",
+    end_session_endpoint: "https://localhost:9443/oidc/logout",
+    jwks_uri: "https://localhost:9443/oauth2/jwks",
+    revocation_endpoint: "https://localhost:9443/oauth2/revoke",
+    token_endpoint: "https://localhost:9443/oauth2/token",
+    userinfo_endpoint: "https://localhost:9443/oauth2/userinfo"
+};
+
+export const JWK: JWKInterface = {
+    alg: "RS256",
+    e: "AQAB",
+    kid: KEY_ID,
+    kty: "RSA",
+    n: "test-modulus",
+    use: "sig"
+};
+
+/**
+ * A store that keeps the data in memory.
+ */
+export class MemoryStore implements Store {
+    private _data: Map<string, string> = new Map<string, string>();
+
+    public async setData(key: string, value: string): Promise<void> {
+        this._data.set(key, value);
+    }
+
+    public async getData(key: string): Promise<string> {
+        return this._data.get(key) ?? (null as unknown as string);
+    }
+
+    public async removeData(key: string): Promise<void> {
+        this._data.delete(key);
+    }
+}
+
+/**
+ * Crypto utils backed by the crypto module of Node.js. The signatures of JWTs are not verified, which lets the tests
+ * focus on the validations performed by the SDK itself.
+ */
+export class TestCryptoUtils implements CryptoUtils<Buffer> {
+    public verifyJwt: jest.Mock<Promise<boolean>> = jest.fn(async () => true);
+    public decryptJwe: jest.Mock<Promise<string>, [ string, string? ]> = jest.fn();
+    public signJwt: jest.Mock<Promise<string>> = jest.fn(async () => "client-assertion");
+
+    public base64URLEncode(value: Buffer): string {
+        return Buffer.from(value).toString("base64url");
+    }
+
+    public base64URLDecode(value: string): string {
+        return Buffer.from(value, "base64url").toString();
+    }
+
+    public base64Encode(value: string): string {
+        return Buffer.from(value).toString("base64");
+    }
+
+    public generateRandomBytes(length: number): Buffer {
+        return randomBytes(length);
+    }
+
+    public hashSha256(data: string): Buffer {
+        return createHash("sha256").update(data).digest();
+    }
+
+    public hash(data: string, algorithm: string): Buffer {
+        return createHash(algorithm.replace("-", "").toLowerCase()).update(data).digest();
+    }
+}
+
+/**
+ * Creates an unsigned JWT with the passed payload.
+ *
+ * @param payload - The payload of the JWT.
+ * @param header - (Optional) The header of the JWT.
+ *
+ * @returns The JWT in the compact serialization format.
+ */
+export const createJwt = (
+    payload: Record<string, unknown>,
+    header: Record<string, unknown> = { alg: "RS256", kid: KEY_ID }
+): string => {
+    return [ header, payload ]
+        .map((part: Record<string, unknown>) => Buffer.from(JSON.stringify(part)).toString("base64url"))
+        .concat("signature")
+        .join(".");
+};
+
+/**
+ * Creates a JWE in the compact serialization format. Its content is opaque to the SDK.
+ *
+ * @returns The JWE.
+ */
+export const createJwe = (): string => "eyJhbGciOiJSU0EtT0FFUCJ9.key.iv.ciphertext.tag";
+
+/**
+ * Computes the `at_hash` or the `c_hash` of a value for an RS256 signed ID token.
+ *
+ * @param value - The access token or the authorization code.
+ *
+ * @returns The hash.
+ */
+export const getTokenHash = (value: string): string => {
+    const hash: Buffer = createHash("sha256").update(value).digest();
+
+    return hash.subarray(0, hash.length / 2).toString("base64url");
+};
+
+/**
+ * Creates a JSON response.
+ *
+ * @param body - The body of the response.
+ * @param status - (Optional) The status of the response.
+ *
+ * @returns The response.
+ */
+export const jsonResponse = (body: unknown, status: number = 200): Response => {
+    return new Response(JSON.stringify(body), {
+        headers: { "Content-Type": "application/json" },
+        status
+    });
+};
+
+/**
+ * Replaces the global `fetch` with a mock that responds based on the requested URL. The JWKS endpoint responds
+ * with the test key unless another response is given.
+ *
+ * @param responses - The functions that create the responses keyed by the URL.
+ *
+ * @returns The mock.
+ */
+export const mockFetch = (
+    responses: Record<string, (request: RequestInit) => Response | Promise<Response>>
+): jest.Mock<Promise<Response>, [ string, RequestInit ]> => {
+    const routes: Record<string, (request: RequestInit) => Response | Promise<Response>> = {
+        [ ENDPOINTS.jwks_uri as string ]: () => jsonResponse({ keys: [ JWK ] }),
+        ...responses
+    };
+    const fetchMock: jest.Mock<Promise<Response>, [ string, RequestInit ]> = jest.fn(
+        async (url: string, request: RequestInit) => {
+            const route: string | undefined = Object.keys(routes).find((path: string) => url.startsWith(path));
+
+            if (!route) {
+                throw new TypeError(`Unexpected request to ${ url }.`);
+            }
+
+            return routes[ route ](request);
+        });
+
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    return fetchMock;
+};
+
+/**
+ * Creates a data layer with the test config and the test OIDC provider meta data.
+ *
+ * @param config - (Optional) The config to override the test config with.
+ * @param oidcProviderMetaData - (Optional) The meta data to override the test meta data with.
+ *
+ * @returns The data layer.
+ */
+export const createDataLayer = async (
+    config?: Partial<AuthClientConfig>,
+    oidcProviderMetaData?: Partial<OIDCProviderMetaData>
+): Promise<DataLayer<unknown>> => {
+    const dataLayer: DataLayer<unknown> = new DataLayer<unknown>("test", new MemoryStore());
+
+    await dataLayer.setConfigData({
+        clientID: CLIENT_ID,
+        clockTolerance: 0,
+        enablePKCE: true,
+        responseMode: ResponseMode.query,
+        scope: [ "openid" ],
+        sendCookiesInRequests: false,
+        signInRedirectURL: "https://localhost:3000",
+        validateIDToken: true,
+        ...config
+    });
+    await dataLayer.setOIDCProviderMetaData({
+        issuer: ISSUER,
+        ...ENDPOINTS,
+        ...oidcProviderMetaData
+    });
+
+    return dataLayer;
+};
+
+/**
+ * Returns the current time in seconds.
+ *
+ * @returns The current time.
+ */
+export const now = (): number => Math.floor(Date.now() / 1000);
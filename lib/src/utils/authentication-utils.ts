@@ -16,8 +16,16 @@
  * under the License.
  */
 
-import { PKCE_CODE_VERIFIER, PKCE_SEPARATOR } from "../constants";
-import { DecodedIDTokenPayload } from "../models";
+import {
+    AUTHORIZATION_CODE,
+    DPOP_TOKEN_TYPE,
+    OIDC_NONCE,
+    PKCE_CODE_VERIFIER,
+    PKCE_SEPARATOR,
+    ResponseMode,
+    STATE
+} from "../constants";
+import { DecodedIDTokenPayload, RequestedClaims } from "../models";
 
 export class AuthenticationUtils {
     // eslint-disable-next-line @typescript-eslint/no-empty-function
@@ -85,6 +93,194 @@ export class AuthenticationUtils {
         };
     }
 
+    /**
+     * This returns the value of the `Authorization` header for an access token based on the token type.
+     *
+     * @param accessToken - The access token.
+     * @param tokenType - The type of the access token.
+     *
+     * @returns The `Authorization` header value.
+     */
+    public static getAuthorizationHeaderValue(accessToken: string, tokenType?: string): string {
+        return tokenType?.toLowerCase() === DPOP_TOKEN_TYPE.toLowerCase()
+            ? `${DPOP_TOKEN_TYPE} ${accessToken}`
+            : `Bearer ${accessToken}`;
+    }
+
+    /**
+     * This returns the base64url encoding of the left-most half of the bytes of a base64url encoded value.
+     *
+     * @param value - The base64url encoded value.
+     *
+     * @returns The base64url encoded left-most half.
+     */
+    public static getLeftHalfOfBase64URLValue(value: string): string {
+        const alphabet: string = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+        const bytes: number[] = [];
+        let buffer: number = 0;
+        let bits: number = 0;
+
+        for (const character of value.replace(/=+$/, "")) {
+            buffer = (buffer << 6) | alphabet.indexOf(character);
+            bits += 6;
+
+            if (bits >= 8) {
+                bits -= 8;
+                bytes.push((buffer >> bits) & 0xff);
+                buffer &= (1 << bits) - 1;
+            }
+        }
+
+        let leftHalf: string = "";
+
+        buffer = 0;
+        bits = 0;
+
+        for (const byte of bytes.slice(0, bytes.length / 2)) {
+            buffer = (buffer << 8) | byte;
+            bits += 8;
+
+            while (bits >= 6) {
+                bits -= 6;
+                leftHalf += alphabet[ (buffer >> bits) & 0x3f ];
+                buffer &= (1 << bits) - 1;
+            }
+        }
+
+        if (bits > 0) {
+            leftHalf += alphabet[ (buffer << (6 - bits)) & 0x3f ];
+        }
+
+        return leftHalf;
+    }
+
+    /**
+     * This returns a promise that resolves after the specified time, or as soon as the signal is aborted.
+     *
+     * @param milliseconds - The time to wait in milliseconds.
+     * @param signal - (Optional) An abort signal to stop waiting.
+     *
+     * @returns A promise that resolves after waiting.
+     */
+    public static wait(milliseconds: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve: () => void) => {
+            const onAbort = (): void => {
+                clearTimeout(timer);
+                resolve();
+            };
+            const timer: ReturnType<typeof setTimeout> = setTimeout(() => {
+                signal?.removeEventListener("abort", onAbort);
+                resolve();
+            }, milliseconds);
+
+            if (signal?.aborted) {
+                onAbort();
+
+                return;
+            }
+
+            signal?.addEventListener("abort", onAbort);
+        });
+    }
+
+    /**
+     * This extracts the parameters of an authorization response from the redirect URL or the form_post body.
+     *
+     * @param callback - The full redirect URL, the form_post body or the parsed form_post body.
+     *
+     * @returns The parameters of the authorization response.
+     */
+    public static getAuthorizationResponseParams(callback: string | Record<string, string>): URLSearchParams {
+        if (typeof callback !== "string") {
+            return new URLSearchParams(callback);
+        }
+
+        let url: URL;
+
+        try {
+            url = new URL(callback);
+        } catch (error) {
+            return new URLSearchParams(callback);
+        }
+
+        const fragmentParams: URLSearchParams = new URLSearchParams(url.hash.substring(1));
+
+        // The parameters are returned in the fragment when the response mode is `fragment`. The redirect URL may have
+        // a query string of its own, so the fragment is used whenever it carries an authorization response.
+        return [ AUTHORIZATION_CODE, STATE, "response", "error" ].some((param: string) => fragmentParams.has(param))
+            ? fragmentParams
+            : url.searchParams;
+    }
+
+    /**
+     * This checks if the response mode returns the authorization response as a JWT as specified by JARM.
+     *
+     * @param responseMode - The response mode.
+     *
+     * @returns True if the response mode is a JWT secured authorization response mode.
+     */
+    public static isJwtResponseMode(responseMode?: ResponseMode): boolean {
+        return responseMode === ResponseMode.jwt
+            || responseMode === ResponseMode.queryJwt
+            || responseMode === ResponseMode.fragmentJwt
+            || responseMode === ResponseMode.formPostJwt;
+    }
+
+    /**
+     * This parses the parameters of the challenges in a `WWW-Authenticate` header.
+     *
+     * @param header - The value of the `WWW-Authenticate` header.
+     *
+     * @returns The parameters of the challenges.
+     */
+    public static parseWWWAuthenticateHeader(header: string): Record<string, string> {
+        const params: Record<string, string> = {};
+        const paramPattern: RegExp = /([\w-]+)=(?:"((?:[^"\\]|\\.)*)"|([^\s,]+))/g;
+
+        let match: RegExpExecArray | null;
+
+        while ((match = paramPattern.exec(header)) !== null) {
+            params[ match[ 1 ] ] = match[ 2 ] !== undefined ? match[ 2 ].replace(/\\(.)/g, "$1") : match[ 3 ];
+        }
+
+        return params;
+    }
+
+    /**
+     * This returns the names of the requested essential claims that are either missing or do not have the requested
+     * value.
+     *
+     * @param requestedClaims - The claims requested using the `claims` request parameter.
+     * @param claims - The returned claims.
+     *
+     * @returns The names of the essential claims that are not satisfied.
+     */
+    public static getUnsatisfiedEssentialClaims(
+        requestedClaims: RequestedClaims | undefined,
+        claims: Record<string, any>
+    ): string[] {
+        return Object.entries(requestedClaims ?? {})
+            .filter(([ claim, claimRequest ]: [ string, RequestedClaims[ string ] ]) => {
+                if (!claimRequest?.essential) {
+                    return false;
+                }
+
+                const value: any = claims?.[ claim ];
+
+                if (value === undefined || value === null) {
+                    return true;
+                }
+
+                if (claimRequest.value !== undefined) {
+                    return value !== claimRequest.value;
+                }
+
+                return Boolean(claimRequest.values && claimRequest.values.length > 0
+                    && !claimRequest.values.includes(value));
+            })
+            .map(([ claim ]: [ string, RequestedClaims[ string ] ]) => claim);
+    }
+
     /**
      * This generates the state param value to be sent with an authorization request.
      *
@@ -104,4 +300,31 @@ export class AuthenticationUtils {
 
         return `${PKCE_CODE_VERIFIER}${PKCE_SEPARATOR}${index}`;
     }
+
+    /**
+     * This returns the key against which the nonce of the request correlated by the state param is stored.
+     *
+     * @param stateParam - The state param value.
+     *
+     * @returns The nonce key.
+     */
+    public static extractNonceKeyFromStateParam(stateParam: string): string {
+        const index: number = parseInt(stateParam.split("request_")[1]);
+
+        return `${OIDC_NONCE}${PKCE_SEPARATOR}${index}`;
+    }
+
+    /**
+     * This returns the key against which a parameter of the request correlated by the state param is stored.
+     *
+     * @param param - The name of the parameter.
+     * @param stateParam - The state param value.
+     *
+     * @returns The key of the parameter.
+     */
+    public static extractRequestParamKeyFromStateParam(param: string, stateParam: string): string {
+        const index: number = parseInt(stateParam.split("request_")[1]);
+
+        return `${param}${PKCE_SEPARATOR}${index}`;
+    }
 }
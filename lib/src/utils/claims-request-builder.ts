@@ -0,0 +1,84 @@
+/**
+ * Copyright (c) 2026, WSO2 LLC. (https://www.wso2.com). All Rights Reserved.
+ *
+ * WSO2 LLC. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import { ClaimRequest, ClaimValueConstraint, ClaimsRequest, ClaimsRequestTarget } from "../models";
+
+/**
+ * This builds the OpenID Connect `claims` request parameter.
+ *
+ * @example
+ * ```
+ * const claims: ClaimsRequest = new ClaimsRequestBuilder()
+ *     .essential("id_token", "email")
+ *     .essential("id_token", "acr", { values: [ "urn:mace:incommon:iap:silver" ] })
+ *     .voluntary("userinfo", "picture")
+ *     .build();
+ * ```
+ */
+export class ClaimsRequestBuilder {
+    private _claimsRequest: ClaimsRequest;
+
+    public constructor() {
+        this._claimsRequest = {};
+    }
+
+    /**
+     * This requests a claim that is required for the authorization to succeed.
+     *
+     * @param target - Whether the claim should be returned in the ID token or by the UserInfo endpoint.
+     * @param claim - The name of the claim.
+     * @param constraint - (Optional) The value or the set of values the claim is requested to have.
+     *
+     * @returns The builder.
+     */
+    public essential(target: ClaimsRequestTarget, claim: string, constraint?: ClaimValueConstraint): this {
+        return this._addClaim(target, claim, { ...constraint, essential: true });
+    }
+
+    /**
+     * This requests a claim that is not required for the authorization to succeed.
+     *
+     * @param target - Whether the claim should be returned in the ID token or by the UserInfo endpoint.
+     * @param claim - The name of the claim.
+     * @param constraint - (Optional) The value or the set of values the claim is requested to have.
+     *
+     * @returns The builder.
+     */
+    public voluntary(target: ClaimsRequestTarget, claim: string, constraint?: ClaimValueConstraint): this {
+        return this._addClaim(target, claim,
+            constraint?.value !== undefined || constraint?.values ? { ...constraint } : null);
+    }
+
+    /**
+     * This returns the `claims` request parameter to be passed to the authorization request.
+     *
+     * @returns The `claims` request parameter.
+     */
+    public build(): ClaimsRequest {
+        return JSON.parse(JSON.stringify(this._claimsRequest));
+    }
+
+    private _addClaim(target: ClaimsRequestTarget, claim: string, claimRequest: ClaimRequest | null): this {
+        this._claimsRequest[ target ] = {
+            ...this._claimsRequest[ target ],
+            [ claim ]: claimRequest
+        };
+
+        return this;
+    }
+}
@@ -17,3 +17,4 @@
  */
 
 export * from "./authentication-utils";
+export * from "./claims-request-builder";
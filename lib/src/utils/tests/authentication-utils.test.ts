@@ -0,0 +1,59 @@
+/**
+ * Copyright (c) 2026, WSO2 LLC. (https://www.wso2.com). All Rights Reserved.
+ *
+ * WSO2 LLC. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import { AuthenticationUtils } from "../authentication-utils";
+
+describe("AuthenticationUtils", () => {
+    describe("getAuthorizationResponseParams", () => {
+        it("reads the authorization response from the query string", () => {
+            expect(Object.fromEntries(AuthenticationUtils.getAuthorizationResponseParams(
+                "https://localhost:3000/callback?code=authorization-code&state=request_0"
+            ))).toEqual({ code: "authorization-code", state: "request_0" });
+        });
+
+        it("reads the authorization response from the fragment", () => {
+            expect(Object.fromEntries(AuthenticationUtils.getAuthorizationResponseParams(
+                "https://localhost:3000/callback#code=authorization-code&state=request_0"
+            ))).toEqual({ code: "authorization-code", state: "request_0" });
+        });
+
+        it("reads the authorization response from the fragment of a redirect URL with a query string", () => {
+            expect(Object.fromEntries(AuthenticationUtils.getAuthorizationResponseParams(
+                "https://localhost:3000/callback?tenant=a#code=authorization-code&state=request_0"
+            ))).toEqual({ code: "authorization-code", state: "request_0" });
+        });
+
+        it("reads a JWT secured authorization response from the fragment of a redirect URL with a query string", () => {
+            expect(Object.fromEntries(AuthenticationUtils.getAuthorizationResponseParams(
+                "https://localhost:3000/callback?tenant=a#response=response-jwt"
+            ))).toEqual({ response: "response-jwt" });
+        });
+
+        it("ignores a fragment that doesn't carry an authorization response", () => {
+            expect(Object.fromEntries(AuthenticationUtils.getAuthorizationResponseParams(
+                "https://localhost:3000/callback?code=authorization-code&state=request_0#/home"
+            ))).toEqual({ code: "authorization-code", state: "request_0" });
+        });
+
+        it("reads the parsed form_post body", () => {
+            expect(Object.fromEntries(AuthenticationUtils.getAuthorizationResponseParams(
+                { code: "authorization-code", state: "request_0" }
+            ))).toEqual({ code: "authorization-code", state: "request_0" });
+        });
+    });
+});
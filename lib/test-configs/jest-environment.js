@@ -0,0 +1,36 @@
+/**
+ * Copyright (c) 2026, WSO2 LLC. (https://www.wso2.com). All Rights Reserved.
+ *
+ * WSO2 LLC. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+const NodeEnvironment = require("jest-environment-node");
+
+/**
+ * The Node environment of Jest 27 doesn't expose the Fetch API of Node.js. This environment exposes it so that the
+ * SDK can be tested against the same `fetch`, `Headers` and `Response` as the runtime.
+ */
+class FetchEnvironment extends NodeEnvironment {
+    constructor(config, context) {
+        super(config, context);
+
+        this.global.fetch = fetch;
+        this.global.Headers = Headers;
+        this.global.Request = Request;
+        this.global.Response = Response;
+    }
+}
+
+module.exports = FetchEnvironment;